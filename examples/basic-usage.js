@@ -97,8 +97,8 @@ async function main() {
         console.log('Converting 1500000000 lamports to SOL:', client.fromBasisPoints(new BN(1500000000), 9));
         
         // Error handling example
-        const testErrorCode = 6006; // System paused
-        console.log('Error 6006 means:', client.formatError(testErrorCode));
+        const testErrorCode = 1023; // System paused
+        console.log('Error 1023 means:', client.formatError(testErrorCode));
 
         console.log('\n✅ All examples completed successfully!');
         console.log('\n📚 Next steps:');
@@ -110,13 +110,12 @@ async function main() {
     } catch (error) {
         console.error('❌ Error:', error.message);
         
-        // Parse error from logs if available
-        if (error.logs) {
-            const errorCode = client.parseErrorCode(error.logs);
-            if (errorCode) {
-                console.error('Error code:', errorCode);
-                console.error('Error meaning:', client.formatError(errorCode));
-            }
+        // Map program failures to typed errors
+        const frtError = client.toFrtError(error);
+        if (frtError.code !== null) {
+            console.error('Error code:', frtError.code, `(${frtError.errorName})`);
+            console.error('Error meaning:', frtError.message);
+            console.error('Hint:', frtError.hint);
         }
     }
 }
@@ -0,0 +1,96 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { unpackAccount, unpackMint } from '@solana/spl-token';
+import BN from 'bn.js';
+import { normalizeTokenOrder, fromBasisPoints } from '../utils';
+import { PairPool, PoolAccount } from '../types';
+import { listPools, isPoolPaused } from './pool';
+import { fetchMultipleAccounts } from './reader';
+
+/**
+ * Token pair lookup across all ratios
+ */
+
+/**
+ * Find every pool for a token pair regardless of its ratio
+ * Pools are sorted by best effective rate for swapping `inputMint` into the
+ * other token; paused pools are listed after active ones
+ * @param connection - Solana connection
+ * @param mintX - First token mint (any order)
+ * @param mintY - Second token mint (any order)
+ * @param inputMint - Input token for rate ordering (default mintX)
+ * @returns Promise<PairPool[]> - Pools with prices, vault liquidity and pause status
+ */
+export async function findPoolsForPair(
+    connection: Connection,
+    mintX: PublicKey,
+    mintY: PublicKey,
+    inputMint: PublicKey = mintX
+): Promise<PairPool[]> {
+    if (!inputMint.equals(mintX) && !inputMint.equals(mintY)) {
+        throw new Error("Input mint must be one of the pair's mints");
+    }
+
+    const [mintA, mintB] = normalizeTokenOrder(mintX, mintY);
+    const pools = await listPools(connection, { pair: [mintA, mintB] });
+    if (pools.length === 0) {
+        return [];
+    }
+
+    // Both mints plus every vault, batched 100 keys per request
+    const vaults = pools.flatMap(({ poolState }) => [poolState.tokenAVault, poolState.tokenBVault]);
+    const accounts = await fetchMultipleAccounts(connection, [mintA, mintB, ...vaults]);
+
+    const [mintAInfo, mintBInfo, ...vaultInfos] = accounts;
+    if (!mintAInfo || !mintBInfo) {
+        throw new Error("Token mint account not found");
+    }
+    const tokenADecimals = unpackMint(mintA, mintAInfo, mintAInfo.owner).decimals;
+    const tokenBDecimals = unpackMint(mintB, mintBInfo, mintBInfo.owner).decimals;
+
+    const pairPools = pools.map((pool, index): PairPool => {
+        const { poolState } = pool;
+        const displayA = fromBasisPoints(poolState.ratioANumerator, tokenADecimals);
+        const displayB = fromBasisPoints(poolState.ratioBDenominator, tokenBDecimals);
+
+        return {
+            ...pool,
+            tokenADecimals,
+            tokenBDecimals,
+            priceAInB: displayB / displayA,
+            priceBInA: displayA / displayB,
+            availableTokenA: readVaultBalance(vaults[index * 2], vaultInfos[index * 2]),
+            availableTokenB: readVaultBalance(vaults[index * 2 + 1], vaultInfos[index * 2 + 1]),
+            isPaused: isPoolPaused(poolState),
+        };
+    });
+
+    const isInputTokenA = inputMint.equals(mintA);
+    return pairPools.sort((a, b) => {
+        if (a.poolState.swapsPaused !== b.poolState.swapsPaused) {
+            return a.poolState.swapsPaused ? 1 : -1;
+        }
+        return compareEffectiveRate(b, a, isInputTokenA);
+    });
+}
+
+/**
+ * Compare output-per-input rates of two pools without floating point
+ * rate = outputRatio / inputRatio, so compare outA * inB against outB * inA
+ */
+function compareEffectiveRate(a: PoolAccount, b: PoolAccount, isInputTokenA: boolean): number {
+    const [inA, outA] = isInputTokenA
+        ? [a.poolState.ratioANumerator, a.poolState.ratioBDenominator]
+        : [a.poolState.ratioBDenominator, a.poolState.ratioANumerator];
+    const [inB, outB] = isInputTokenA
+        ? [b.poolState.ratioANumerator, b.poolState.ratioBDenominator]
+        : [b.poolState.ratioBDenominator, b.poolState.ratioANumerator];
+
+    return outA.mul(inB).cmp(outB.mul(inA));
+}
+
+function readVaultBalance(vault: PublicKey, info: AccountInfo<Buffer> | null): BN {
+    if (!info) {
+        return new BN(0);
+    }
+    return new BN(unpackAccount(vault, info, info.owner).amount.toString());
+}
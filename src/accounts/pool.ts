@@ -0,0 +1,235 @@
+import { Connection, GetProgramAccountsFilter, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { PROGRAM_ID, ACCOUNT_SIZES, POOL_FLAGS, POOL_STATE_OFFSETS } from '../constants';
+import { normalizeTokenOrder } from '../utils';
+import { PoolAccount, PoolFilter, PoolInfo, PoolState } from '../types';
+import { assertProgramOwned, createAccountReader } from './reader';
+
+/**
+ * PoolState account decoding and fetching
+ */
+
+/**
+ * Decode a PoolState account (597-byte Borsh layout)
+ * @param data - Raw account data
+ * @returns Decoded PoolState with flag accessors and computed values
+ */
+export function decodePoolState(data: Buffer): PoolState {
+    const reader = createAccountReader(data, 'PoolState');
+
+    const owner = reader.pubkey();
+    const tokenAMint = reader.pubkey();
+    const tokenBMint = reader.pubkey();
+    const tokenAVault = reader.pubkey();
+    const tokenBVault = reader.pubkey();
+    const lpTokenAMint = reader.pubkey();
+    const lpTokenBMint = reader.pubkey();
+
+    const ratioANumerator = reader.u64();
+    const ratioBDenominator = reader.u64();
+    const totalTokenALiquidity = reader.u64();
+    const totalTokenBLiquidity = reader.u64();
+
+    const poolAuthorityBumpSeed = reader.u8();
+    const tokenAVaultBumpSeed = reader.u8();
+    const tokenBVaultBumpSeed = reader.u8();
+    const lpTokenAMintBumpSeed = reader.u8();
+    const lpTokenBMintBumpSeed = reader.u8();
+
+    const flags = reader.u8();
+
+    const contractLiquidityFee = reader.u64();
+    const swapContractFee = reader.u64();
+
+    const collectedFeesTokenA = reader.u64();
+    const collectedFeesTokenB = reader.u64();
+    const totalFeesWithdrawnTokenA = reader.u64();
+    const totalFeesWithdrawnTokenB = reader.u64();
+
+    const collectedLiquidityFees = reader.u64();
+    const collectedSwapContractFees = reader.u64();
+    const totalSolFeesCollected = reader.u64();
+
+    const lastConsolidationTimestamp = reader.i64();
+    const totalConsolidations = reader.u64();
+    const totalFeesConsolidated = reader.u64();
+
+    const maxSwapAmount = reader.u64();
+    const minSwapAmount = reader.u64();
+    const maxDepositAmount = reader.u64();
+    const minDepositAmount = reader.u64();
+    const maxWithdrawalAmount = reader.u64();
+    const minWithdrawalAmount = reader.u64();
+
+    return {
+        owner,
+        tokenAMint,
+        tokenBMint,
+        tokenAVault,
+        tokenBVault,
+        lpTokenAMint,
+        lpTokenBMint,
+        ratioANumerator,
+        ratioBDenominator,
+        totalTokenALiquidity,
+        totalTokenBLiquidity,
+        poolAuthorityBumpSeed,
+        tokenAVaultBumpSeed,
+        tokenBVaultBumpSeed,
+        lpTokenAMintBumpSeed,
+        lpTokenBMintBumpSeed,
+        flags,
+        contractLiquidityFee,
+        swapContractFee,
+        collectedFeesTokenA,
+        collectedFeesTokenB,
+        totalFeesWithdrawnTokenA,
+        totalFeesWithdrawnTokenB,
+        collectedLiquidityFees,
+        collectedSwapContractFees,
+        totalSolFeesCollected,
+        lastConsolidationTimestamp,
+        totalConsolidations,
+        totalFeesConsolidated,
+        maxSwapAmount,
+        minSwapAmount,
+        maxDepositAmount,
+        minDepositAmount,
+        maxWithdrawalAmount,
+        minWithdrawalAmount,
+
+        oneToManyRatio: (flags & POOL_FLAGS.ONE_TO_MANY_RATIO) !== 0,
+        liquidityPaused: (flags & POOL_FLAGS.LIQUIDITY_PAUSED) !== 0,
+        swapsPaused: (flags & POOL_FLAGS.SWAPS_PAUSED) !== 0,
+        withdrawalProtectionActive: (flags & POOL_FLAGS.WITHDRAWAL_PROTECTION) !== 0,
+        onlyLpTokenAForBoth: (flags & POOL_FLAGS.SINGLE_LP_TOKEN) !== 0,
+        swapForOwnersOnly: (flags & POOL_FLAGS.SWAP_FOR_OWNERS_ONLY) !== 0,
+
+        // Mirrors the contract's saturating subtraction
+        pendingSolFees: totalSolFeesCollected.gt(totalFeesConsolidated)
+            ? totalSolFeesCollected.sub(totalFeesConsolidated)
+            : new BN(0),
+    };
+}
+
+/**
+ * Fetch and decode a pool state account
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @returns Promise<PoolState | null> - Decoded pool state, or null if the account does not exist
+ */
+export async function getPoolState(
+    connection: Connection,
+    poolStatePDA: PublicKey
+): Promise<PoolState | null> {
+    const accountInfo = await connection.getAccountInfo(poolStatePDA);
+    if (!accountInfo) {
+        return null;
+    }
+
+    assertProgramOwned(accountInfo, poolStatePDA);
+    return decodePoolState(accountInfo.data);
+}
+
+/**
+ * List pools owned by the program using getProgramAccounts filters
+ * Mint, pair and owner criteria are applied server-side via memcmp;
+ * the paused criterion is applied after decoding
+ * @param connection - Solana connection
+ * @param filter - Optional pool filter
+ * @returns Promise<PoolAccount[]> - Decoded pools matching the filter
+ */
+export async function listPools(
+    connection: Connection,
+    filter: PoolFilter = {}
+): Promise<PoolAccount[]> {
+    const filters: GetProgramAccountsFilter[] = [{ dataSize: ACCOUNT_SIZES.POOL_STATE }];
+
+    if (filter.owner) {
+        filters.push(memcmpFilter(POOL_STATE_OFFSETS.OWNER, filter.owner));
+    }
+
+    if (filter.pair) {
+        const [mintA, mintB] = normalizeTokenOrder(filter.pair[0], filter.pair[1]);
+        filters.push(memcmpFilter(POOL_STATE_OFFSETS.TOKEN_A_MINT, mintA));
+        filters.push(memcmpFilter(POOL_STATE_OFFSETS.TOKEN_B_MINT, mintB));
+    }
+
+    // A single mint can be on either side of the pair, so query both offsets
+    const queries: GetProgramAccountsFilter[][] = filter.mint && !filter.pair
+        ? [
+            [...filters, memcmpFilter(POOL_STATE_OFFSETS.TOKEN_A_MINT, filter.mint)],
+            [...filters, memcmpFilter(POOL_STATE_OFFSETS.TOKEN_B_MINT, filter.mint)],
+        ]
+        : [filters];
+
+    const results = await Promise.all(
+        queries.map(queryFilters => connection.getProgramAccounts(PROGRAM_ID, { filters: queryFilters }))
+    );
+
+    const seen = new Set<string>();
+    const pools: PoolAccount[] = [];
+
+    for (const accounts of results) {
+        for (const { pubkey, account } of accounts) {
+            const key = pubkey.toBase58();
+            if (seen.has(key)) {
+                continue;
+            }
+            seen.add(key);
+
+            const poolState = decodePoolState(account.data);
+
+            if (filter.mint && !poolContainsMint(poolState, filter.mint)) {
+                continue;
+            }
+            if (filter.paused !== undefined && isPoolPaused(poolState) !== filter.paused) {
+                continue;
+            }
+
+            pools.push({ poolStatePDA: pubkey, poolState });
+        }
+    }
+
+    return pools;
+}
+
+/**
+ * Check whether any pool operation (swaps or liquidity) is paused
+ * @param poolState - Decoded pool state
+ * @returns True if swaps or liquidity are paused
+ */
+export function isPoolPaused(poolState: PoolState): boolean {
+    return poolState.swapsPaused || poolState.liquidityPaused;
+}
+
+function poolContainsMint(poolState: PoolState, mint: PublicKey): boolean {
+    return poolState.tokenAMint.equals(mint) || poolState.tokenBMint.equals(mint);
+}
+
+function memcmpFilter(offset: number, key: PublicKey): GetProgramAccountsFilter {
+    return { memcmp: { offset, bytes: key.toBase58() } };
+}
+
+/**
+ * Convert a decoded pool state into the summary PoolInfo shape
+ * @param poolStatePDA - Pool state PDA
+ * @param poolState - Decoded pool state
+ * @returns PoolInfo
+ */
+export function toPoolInfo(poolStatePDA: PublicKey, poolState: PoolState): PoolInfo {
+    return {
+        poolStatePDA,
+        tokenAMint: poolState.tokenAMint,
+        tokenBMint: poolState.tokenBMint,
+        ratioA: poolState.ratioANumerator,
+        ratioB: poolState.ratioBDenominator,
+        tokenAVault: poolState.tokenAVault,
+        tokenBVault: poolState.tokenBVault,
+        lpTokenAMint: poolState.lpTokenAMint,
+        lpTokenBMint: poolState.lpTokenBMint,
+        isPaused: isPoolPaused(poolState),
+        liquidityFee: poolState.contractLiquidityFee,
+        swapFee: poolState.swapContractFee,
+    };
+}
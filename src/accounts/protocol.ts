@@ -0,0 +1,129 @@
+import { Commitment, Connection } from '@solana/web3.js';
+import BN from 'bn.js';
+import { deriveSystemStatePDA, deriveMainTreasuryPDA } from '../utils';
+import { MainTreasuryState, ProtocolState, SystemState, TreasuryInfo } from '../types';
+import { assertProgramOwned, createAccountReader } from './reader';
+
+/**
+ * SystemState and MainTreasuryState account decoding and fetching
+ */
+
+/**
+ * Decode a SystemState account (10-byte Borsh layout)
+ * @param data - Raw account data
+ * @returns Decoded SystemState
+ */
+export function decodeSystemState(data: Buffer): SystemState {
+    const reader = createAccountReader(data, 'SystemState');
+
+    return {
+        isPaused: reader.bool(),
+        pauseTimestamp: reader.i64(),
+        pauseReasonCode: reader.u8(),
+    };
+}
+
+/**
+ * Decode a MainTreasuryState account
+ * @param data - Raw account data
+ * @returns Decoded MainTreasuryState with computed values
+ */
+export function decodeMainTreasuryState(data: Buffer): MainTreasuryState {
+    const reader = createAccountReader(data, 'MainTreasuryState');
+
+    const totalBalance = reader.u64();
+    const rentExemptMinimum = reader.u64();
+    const totalWithdrawn = reader.u64();
+
+    const poolCreationCount = reader.u64();
+    const liquidityOperationCount = reader.u64();
+    const regularSwapCount = reader.u64();
+    const treasuryWithdrawalCount = reader.u64();
+    const failedOperationCount = reader.u64();
+
+    const totalPoolCreationFees = reader.u64();
+    const totalLiquidityFees = reader.u64();
+    const totalRegularSwapFees = reader.u64();
+    const totalSwapContractFees = reader.u64();
+
+    const lastUpdateTimestamp = reader.i64();
+    const lastWithdrawalTimestamp = reader.i64();
+
+    const totalConsolidationsPerformed = reader.u64();
+
+    const donationCount = reader.u64();
+    const totalDonations = reader.u64();
+
+    return {
+        totalBalance,
+        rentExemptMinimum,
+        totalWithdrawn,
+        poolCreationCount,
+        liquidityOperationCount,
+        regularSwapCount,
+        treasuryWithdrawalCount,
+        failedOperationCount,
+        totalPoolCreationFees,
+        totalLiquidityFees,
+        totalRegularSwapFees,
+        totalSwapContractFees,
+        lastUpdateTimestamp,
+        lastWithdrawalTimestamp,
+        totalConsolidationsPerformed,
+        donationCount,
+        totalDonations,
+
+        availableForWithdrawal: totalBalance.gt(rentExemptMinimum)
+            ? totalBalance.sub(rentExemptMinimum)
+            : new BN(0),
+        totalFeesCollected: totalPoolCreationFees.add(totalLiquidityFees).add(totalRegularSwapFees),
+    };
+}
+
+/**
+ * Fetch the system state and main treasury state in a single RPC call
+ * @param connection - Solana connection
+ * @param commitment - Optional commitment level
+ * @returns Promise<ProtocolState> - Decoded states (null for missing accounts)
+ */
+export async function getProtocolState(
+    connection: Connection,
+    commitment?: Commitment
+): Promise<ProtocolState> {
+    const [systemStatePDA] = deriveSystemStatePDA();
+    const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+
+    const [systemAccount, treasuryAccount] = await connection.getMultipleAccountsInfo(
+        [systemStatePDA, mainTreasuryPDA],
+        commitment
+    );
+
+    if (systemAccount) {
+        assertProgramOwned(systemAccount, systemStatePDA);
+    }
+    if (treasuryAccount) {
+        assertProgramOwned(treasuryAccount, mainTreasuryPDA);
+    }
+
+    return {
+        systemState: systemAccount ? decodeSystemState(systemAccount.data) : null,
+        mainTreasuryState: treasuryAccount ? decodeMainTreasuryState(treasuryAccount.data) : null,
+    };
+}
+
+/**
+ * Convert a decoded treasury state into the summary TreasuryInfo shape
+ * @param treasuryState - Decoded main treasury state
+ * @returns TreasuryInfo
+ */
+export function toTreasuryInfo(treasuryState: MainTreasuryState): TreasuryInfo {
+    return {
+        totalBalance: treasuryState.totalBalance,
+        totalFeesCollected: treasuryState.totalFeesCollected,
+        lastWithdrawalTime: treasuryState.lastWithdrawalTimestamp,
+        withdrawalCount: treasuryState.treasuryWithdrawalCount.toNumber(),
+        donationCount: treasuryState.donationCount.toNumber(),
+        totalDonations: treasuryState.totalDonations,
+    };
+}
+
@@ -0,0 +1,78 @@
+import { AccountInfo, Commitment, Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { PROGRAM_ID } from '../constants';
+
+/**
+ * Sequential little-endian reader for Borsh-serialized account data
+ */
+
+// getMultipleAccountsInfo accepts at most 100 keys per request
+export const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+export interface AccountReader {
+    pubkey(): PublicKey;
+    u64(): BN;
+    i64(): BN;
+    u8(): number;
+    bool(): boolean;
+}
+
+/**
+ * Create a reader over account data
+ * @param data - Raw account data
+ * @param accountName - Account type name used in error messages
+ * @returns AccountReader positioned at the start of the data
+ */
+export function createAccountReader(data: Buffer, accountName: string): AccountReader {
+    let offset = 0;
+
+    const take = (length: number): Buffer => {
+        if (offset + length > data.length) {
+            throw new Error(
+                `Invalid ${accountName} data: expected at least ${offset + length} bytes, got ${data.length}`
+            );
+        }
+        const slice = data.subarray(offset, offset + length);
+        offset += length;
+        return slice;
+    };
+
+    return {
+        pubkey: () => new PublicKey(take(32)),
+        u64: () => new BN(take(8), 'le'),
+        i64: () => new BN(take(8), 'le').fromTwos(64),
+        u8: () => take(1)[0],
+        bool: () => take(1)[0] !== 0,
+    };
+}
+
+/**
+ * Ensure an account is owned by the Fixed Ratio Trading program before decoding it
+ * @param accountInfo - Fetched account info
+ * @param address - Account address (for error messages)
+ */
+export function assertProgramOwned(accountInfo: AccountInfo<Buffer>, address: PublicKey): void {
+    if (!accountInfo.owner.equals(PROGRAM_ID)) {
+        throw new Error(`Account ${address.toBase58()} is not owned by the Fixed Ratio Trading program`);
+    }
+}
+
+/**
+ * Fetch any number of accounts with getMultipleAccountsInfo, 100 keys per request
+ * @param connection - Solana connection
+ * @param addresses - Account addresses
+ * @param commitment - Optional commitment level
+ * @returns Promise of account infos in the same order (null for missing accounts)
+ */
+export async function fetchMultipleAccounts(
+    connection: Connection,
+    addresses: PublicKey[],
+    commitment?: Commitment
+): Promise<(AccountInfo<Buffer> | null)[]> {
+    const accounts: (AccountInfo<Buffer> | null)[] = [];
+    for (let i = 0; i < addresses.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+        const chunk = addresses.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+        accounts.push(...await connection.getMultipleAccountsInfo(chunk, commitment));
+    }
+    return accounts;
+}
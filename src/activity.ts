@@ -0,0 +1,369 @@
+import {
+    Connection,
+    ConfirmedSignatureInfo,
+    ParsedInstruction,
+    ParsedTransactionWithMeta,
+    PartiallyDecodedInstruction,
+    PublicKey,
+    TokenBalance,
+    TransactionInstruction,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import { PROGRAM_ID } from './constants';
+import { decodeBase58, deriveMainTreasuryPDA } from './utils';
+import { decodeInstruction, DecodedInstruction } from './decoder';
+import { decodeInstructionData, encodeInstructionData, INSTRUCTION_SCHEMAS } from './registry';
+import { ActivityEntry, ActivityOptions } from './types';
+
+/**
+ * Transaction history and activity feeds
+ */
+
+const DEFAULT_ACTIVITY_LIMIT = 100;
+const SIGNATURE_PAGE_SIZE = 1000; // getSignaturesForAddress maximum
+const TRANSACTION_BATCH_SIZE = 50;
+
+/**
+ * Get swaps, deposits, withdrawals and consolidations involving a pool
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @param options - Paging and filter options
+ * @returns Promise<ActivityEntry[]> - Activity, newest first
+ */
+export async function getPoolActivity(
+    connection: Connection,
+    poolStatePDA: PublicKey,
+    options: ActivityOptions = {}
+): Promise<ActivityEntry[]> {
+    const entries = await getActivity(connection, poolStatePDA, options);
+    return entries.filter(entry => entry.poolStatePDAs.some(pool => pool.equals(poolStatePDA)));
+}
+
+/**
+ * Get Fixed Ratio Trading operations authorized by a wallet
+ * @param connection - Solana connection
+ * @param owner - Wallet address
+ * @param options - Paging and filter options
+ * @returns Promise<ActivityEntry[]> - Activity, newest first
+ */
+export async function getWalletActivity(
+    connection: Connection,
+    owner: PublicKey,
+    options: ActivityOptions = {}
+): Promise<ActivityEntry[]> {
+    const entries = await getActivity(connection, owner, options);
+    return entries.filter(entry => entry.signer.equals(owner));
+}
+
+/**
+ * Extract activity entries from a parsed transaction
+ * Top-level and inner (CPI) program instructions are both decoded. History spans contract generations
+ * whose discriminators collide, so without a pinned version each instruction is decoded with every
+ * registered generation and kept only when exactly one of them matches it exactly.
+ * Amounts come from balance changes when the transaction holds a single operation, and otherwise from
+ * the token and SOL transfers each operation made, so batched operations are not credited each other's deltas.
+ * @param signature - Transaction signature
+ * @param transaction - Parsed transaction with metadata
+ * @param contractVersion - Contract version to decode with (default: match every registered generation)
+ * @returns Activity entries in instruction order
+ */
+export function parseActivityFromTransaction(
+    signature: string,
+    transaction: ParsedTransactionWithMeta,
+    contractVersion?: string
+): ActivityEntry[] {
+    const { meta, slot, blockTime } = transaction;
+    const accountKeys = transaction.transaction.message.accountKeys.map(account => account.pubkey);
+    const feePayer = accountKeys[0];
+    const versions = contractVersion ? [contractVersion] : Object.keys(INSTRUCTION_SCHEMAS);
+
+    // Each top-level instruction followed by the instructions it invoked
+    const groups = transaction.transaction.message.instructions.map((instruction, index) => [
+        instruction,
+        ...(meta?.innerInstructions || [])
+            .filter(inner => inner.index === index)
+            .flatMap(inner => inner.instructions),
+    ]);
+
+    // An operation owns the transfers that follow it in its group, up to the next program instruction
+    const operations: { decoded: DecodedInstruction; transfers: ParsedInstruction[] }[] = [];
+    for (const group of groups) {
+        let current: { decoded: DecodedInstruction; transfers: ParsedInstruction[] } | null = null;
+        for (const instruction of group) {
+            const decoded = decodeProgramInstruction(instruction, versions);
+            if (decoded) {
+                current = { decoded, transfers: [] };
+                operations.push(current);
+            } else if (current && 'parsed' in instruction) {
+                current.transfers.push(instruction);
+            }
+        }
+    }
+
+    const balances = createBalanceReader(transaction, accountKeys);
+    const entries: ActivityEntry[] = [];
+
+    for (const { decoded, transfers } of operations) {
+        const amounts = operations.length === 1 ? balances : createTransferReader(transfers);
+        const base = {
+            signature,
+            slot,
+            blockTime: blockTime ?? null,
+            success: !meta?.err,
+            networkFee: new BN(meta?.fee || 0),
+            instruction: decoded,
+        };
+
+        switch (decoded.type) {
+            case 'Swap':
+                entries.push({
+                    ...base,
+                    type: 'swap',
+                    signer: decoded.accounts.user,
+                    poolStatePDAs: [decoded.accounts.pool],
+                    tokenMint: decoded.inputTokenMint,
+                    amountIn: decoded.amountIn,
+                    amountOut: amounts.tokenDelta(decoded.accounts.userOutputAccount),
+                    protocolFee: amounts.solFee(decoded.accounts.pool),
+                });
+                break;
+            case 'Deposit':
+                entries.push({
+                    ...base,
+                    type: 'deposit',
+                    signer: decoded.accounts.user,
+                    poolStatePDAs: [decoded.accounts.pool],
+                    tokenMint: decoded.depositTokenMint,
+                    amountIn: decoded.amount,
+                    amountOut: amounts.tokenDelta(decoded.accounts.userLpAccount),
+                    protocolFee: amounts.solFee(decoded.accounts.pool),
+                });
+                break;
+            case 'Withdraw':
+                entries.push({
+                    ...base,
+                    type: 'withdraw',
+                    signer: decoded.accounts.user,
+                    poolStatePDAs: [decoded.accounts.pool],
+                    tokenMint: decoded.withdrawTokenMint,
+                    amountIn: decoded.lpAmountToBurn,
+                    amountOut: amounts.tokenDelta(decoded.accounts.userTokenAccount),
+                    protocolFee: amounts.solFee(decoded.accounts.pool),
+                });
+                break;
+            case 'DonateSol':
+                entries.push({
+                    ...base,
+                    type: 'donation',
+                    signer: decoded.accounts.donor,
+                    poolStatePDAs: [],
+                    tokenMint: null,
+                    amountIn: decoded.amount,
+                    amountOut: new BN(0),
+                    protocolFee: new BN(0),
+                    message: decoded.message,
+                });
+                break;
+            case 'ConsolidatePoolFees':
+                // Consolidation moves lamports directly, so it is measured by what its own pools lost
+                entries.push({
+                    ...base,
+                    type: 'consolidation',
+                    signer: feePayer,
+                    poolStatePDAs: decoded.remainingAccounts,
+                    tokenMint: null,
+                    amountIn: new BN(0),
+                    amountOut: decoded.remainingAccounts
+                        .map(pool => balances.solDelta(pool))
+                        .filter(delta => delta.isNeg())
+                        .reduce((total, delta) => total.sub(delta), new BN(0)),
+                    protocolFee: new BN(0),
+                });
+                break;
+        }
+    }
+
+    return entries;
+}
+
+async function getActivity(
+    connection: Connection,
+    address: PublicKey,
+    options: ActivityOptions
+): Promise<ActivityEntry[]> {
+    const signatures = await getSignatures(connection, address, options);
+    const entries: ActivityEntry[] = [];
+
+    for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+        const batch = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+        const transactions = await connection.getParsedTransactions(
+            batch.map(info => info.signature),
+            { maxSupportedTransactionVersion: 0, commitment: options.commitment }
+        );
+
+        transactions.forEach((transaction, index) => {
+            if (transaction) {
+                entries.push(...parseActivityFromTransaction(
+                    batch[index].signature,
+                    transaction,
+                    options.contractVersion
+                ));
+            }
+        });
+    }
+
+    return entries;
+}
+
+// Page backwards through signatures until the limit or the end of history
+async function getSignatures(
+    connection: Connection,
+    address: PublicKey,
+    options: ActivityOptions
+): Promise<ConfirmedSignatureInfo[]> {
+    const limit = options.limit || DEFAULT_ACTIVITY_LIMIT;
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let scanned = 0;
+    let before = options.before;
+
+    while (scanned < limit) {
+        const pageSize = Math.min(SIGNATURE_PAGE_SIZE, limit - scanned);
+        const page = await connection.getSignaturesForAddress(
+            address,
+            { before, until: options.until, limit: pageSize },
+            options.commitment
+        );
+
+        scanned += page.length;
+        signatures.push(...page.filter(info => options.includeFailed || !info.err));
+
+        if (page.length < pageSize) {
+            break;
+        }
+        before = page[page.length - 1].signature;
+    }
+
+    return signatures;
+}
+
+function decodeProgramInstruction(
+    instruction: ParsedInstruction | PartiallyDecodedInstruction,
+    versions: string[]
+): DecodedInstruction | null {
+    // The RPC only leaves instructions of unknown programs partially decoded
+    if (!('data' in instruction) || !instruction.programId.equals(PROGRAM_ID)) {
+        return null;
+    }
+
+    const ix = new TransactionInstruction({
+        programId: instruction.programId,
+        keys: instruction.accounts.map(pubkey => ({ pubkey, isSigner: false, isWritable: false })),
+        data: decodeBase58(instruction.data),
+    });
+
+    // Ambiguous or unrecognized instructions are left out rather than guessed
+    const matches = versions
+        .map(version => decodeExactly(ix, version))
+        .filter((decoded): decoded is DecodedInstruction => decoded !== null);
+    return matches.length === 1 ? matches[0] : null;
+}
+
+// Decode only if the data re-encodes byte for byte and no unexpected accounts are left over
+function decodeExactly(ix: TransactionInstruction, version: string): DecodedInstruction | null {
+    try {
+        const { name, values } = decodeInstructionData(ix.data, version);
+        if (!encodeInstructionData(name, values, version).equals(ix.data)) {
+            return null;
+        }
+
+        const decoded = decodeInstruction(ix, undefined, version);
+        const extraAccounts = decoded.type === 'ConsolidatePoolFees' || decoded.type === 'GetConsolidationStatus'
+            ? decoded.poolCount
+            : 0;
+        return decoded.remainingAccounts.length === extraAccounts ? decoded : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+function createBalanceReader(transaction: ParsedTransactionWithMeta, accountKeys: PublicKey[]) {
+    const meta = transaction.meta;
+    const indexOf = (address: PublicKey) => accountKeys.findIndex(key => key.equals(address));
+
+    const tokenAmount = (balances: TokenBalance[] | null | undefined, index: number): BN => {
+        const balance = (balances || []).find(entry => entry.accountIndex === index);
+        return new BN(balance ? balance.uiTokenAmount.amount : 0);
+    };
+
+    const solDelta = (address: PublicKey): BN => {
+        const index = indexOf(address);
+        if (!meta || index < 0) {
+            return new BN(0);
+        }
+        return new BN(meta.postBalances[index]).sub(new BN(meta.preBalances[index]));
+    };
+
+    return {
+        // Token balance change of an account (0 if it went down or is unknown)
+        tokenDelta: (address: PublicKey): BN => {
+            const index = indexOf(address);
+            if (!meta || index < 0) {
+                return new BN(0);
+            }
+            const delta = tokenAmount(meta.postTokenBalances, index).sub(tokenAmount(meta.preTokenBalances, index));
+            return delta.isNeg() ? new BN(0) : delta;
+        },
+
+        solDelta,
+
+        // SOL collected by the pool and the main treasury
+        solFee: (poolStatePDA: PublicKey): BN => {
+            const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+            return [poolStatePDA, mainTreasuryPDA]
+                .map(solDelta)
+                .filter(delta => !delta.isNeg())
+                .reduce((total, delta) => total.add(delta), new BN(0));
+        },
+    };
+}
+
+// Fields read from parsed token transfer/mint and system transfer instructions
+interface ParsedTransferInfo {
+    destination?: string;
+    account?: string; // mintTo / mintToChecked target
+    amount?: string;
+    tokenAmount?: { amount: string };
+    lamports?: number;
+}
+
+// Amounts from the token and system transfers an operation made through CPI
+function createTransferReader(transfers: ParsedInstruction[]) {
+    const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+
+    const sum = (programs: string[], types: string[], amountTo: (info: ParsedTransferInfo) => BN | null): BN =>
+        transfers
+            .filter(transfer => programs.includes(transfer.program) && types.includes(transfer.parsed?.type))
+            .map(transfer => amountTo((transfer.parsed.info || {}) as ParsedTransferInfo))
+            .reduce((total: BN, amount) => (amount ? total.add(amount) : total), new BN(0));
+
+    return {
+        // Tokens transferred or minted into an account
+        tokenDelta: (address: PublicKey): BN => sum(
+            ['spl-token', 'spl-token-2022'],
+            ['transfer', 'transferChecked', 'mintTo', 'mintToChecked'],
+            info => (info.destination || info.account) === address.toBase58()
+                ? new BN(info.tokenAmount?.amount ?? info.amount ?? 0)
+                : null
+        ),
+
+        // SOL transferred to the pool and the main treasury
+        solFee: (poolStatePDA: PublicKey): BN => sum(
+            ['system'],
+            ['transfer'],
+            info => info.destination !== undefined
+                && [poolStatePDA.toBase58(), mainTreasuryPDA.toBase58()].includes(info.destination)
+                ? new BN(info.lamports ?? 0)
+                : null
+        ),
+    };
+}
@@ -0,0 +1,219 @@
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    TransactionInstruction,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import { COMPUTE_BUDGET, COMPUTE_UNITS, PRIORITY_FEE_PERCENTILES, PROGRAM_ID } from './constants';
+import { decodeInstruction, DecodedInstruction } from './decoder';
+import { fromSimulationResult } from './errors';
+import { buildVersionedTransaction } from './lookup';
+import {
+    calculateConsolidationComputeUnits,
+    calculateDonationComputeUnits,
+} from './instructions/treasury';
+import { ComputeBudgetOptions, ComputeBudgetPlan, PriorityFeeStrategy } from './types';
+
+/**
+ * Compute budget and priority fee management
+ */
+
+// getRecentPrioritizationFees accepts at most 128 accounts
+const MAX_PRIORITY_FEE_ACCOUNTS = 128;
+
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000;
+
+/**
+ * Estimate compute units for a set of instructions from COMPUTE_UNITS
+ * Program instructions use their table entry, other instructions a flat default
+ * @param instructions - Transaction instructions (without compute budget instructions)
+ * @returns Estimated compute units, capped at the transaction limit
+ */
+export function estimateComputeUnits(instructions: TransactionInstruction[]): number {
+    const total = instructions.reduce((sum, instruction) => {
+        if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+            return sum;
+        }
+        if (!instruction.programId.equals(PROGRAM_ID)) {
+            return sum + COMPUTE_BUDGET.DEFAULT_INSTRUCTION_UNITS;
+        }
+        return sum + getInstructionComputeUnits(decodeInstruction(instruction));
+    }, 0);
+
+    return Math.min(total, COMPUTE_BUDGET.MAX_UNITS);
+}
+
+/**
+ * Measure compute units by simulating the instructions
+ * The simulation runs at the maximum limit with a fresh blockhash and no signature checks
+ * @param connection - Solana connection
+ * @param instructions - Transaction instructions (without compute budget instructions)
+ * @param payer - Fee payer
+ * @param margin - Headroom over consumed units (default 10%)
+ * @param lookupTables - Lookup tables to compile against (default: none)
+ * @returns Promise<number> - Compute unit limit, capped at the transaction limit
+ */
+export async function simulateComputeUnits(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    margin: number = COMPUTE_BUDGET.SIMULATION_MARGIN,
+    lookupTables: AddressLookupTableAccount[] = []
+): Promise<number> {
+    const { blockhash } = await connection.getLatestBlockhash();
+    const transaction = buildVersionedTransaction(
+        payer,
+        [ComputeBudgetProgram.setComputeUnitLimit({ units: COMPUTE_BUDGET.MAX_UNITS }), ...instructions],
+        blockhash,
+        lookupTables
+    );
+
+    const simulation = await connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+    });
+
+    const failure = fromSimulationResult(simulation.value);
+    if (failure) {
+        throw failure;
+    }
+    if (simulation.value.unitsConsumed === undefined) {
+        throw new Error("Simulation did not report consumed compute units");
+    }
+
+    const unitsConsumed = simulation.value.unitsConsumed;
+    return Math.min(Math.ceil(unitsConsumed + unitsConsumed * margin), COMPUTE_BUDGET.MAX_UNITS);
+}
+
+/**
+ * Get a compute unit price from recent prioritization fees
+ * Fees are read for the program's writable accounts (pool, vaults, treasury)
+ * @param connection - Solana connection
+ * @param instructions - Transaction instructions
+ * @param strategy - Priority fee strategy
+ * @returns Promise<number> - Compute unit price in micro-lamports
+ */
+export async function getPriorityFeeEstimate(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    strategy: PriorityFeeStrategy
+): Promise<number> {
+    if (strategy === 'none') {
+        return 0;
+    }
+    if (typeof strategy === 'object') {
+        return Math.max(0, Math.floor(strategy.microLamports));
+    }
+
+    const fees = await connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: getWritableProgramAccounts(instructions),
+    });
+    return percentile(fees.map(fee => fee.prioritizationFee), PRIORITY_FEE_PERCENTILES[strategy]);
+}
+
+/**
+ * Calculate the priority fee paid for a compute unit limit and price
+ * @param computeUnitLimit - Compute unit limit
+ * @param microLamports - Compute unit price in micro-lamports
+ * @returns Priority fee in lamports
+ */
+export function calculatePriorityFee(computeUnitLimit: number, microLamports: number): BN {
+    const total = new BN(computeUnitLimit).mul(new BN(microLamports));
+    // The runtime rounds the fee up to a whole lamport
+    return total.add(new BN(MICRO_LAMPORTS_PER_LAMPORT - 1)).div(new BN(MICRO_LAMPORTS_PER_LAMPORT));
+}
+
+/**
+ * Build the compute budget instructions for a transaction
+ * @param connection - Solana connection
+ * @param instructions - Transaction instructions (without compute budget instructions)
+ * @param payer - Fee payer
+ * @param options - Compute budget options
+ * @param lookupTables - Lookup tables the transaction is compiled against (used when simulating)
+ * @returns Promise<ComputeBudgetPlan> - Instructions to prepend, limit, price and priority fee
+ */
+export async function prepareComputeBudget(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    options: ComputeBudgetOptions = {},
+    lookupTables: AddressLookupTableAccount[] = []
+): Promise<ComputeBudgetPlan> {
+    const source = options.computeUnits ?? 'table';
+
+    const computeUnitLimit = typeof source === 'number'
+        ? Math.min(source, COMPUTE_BUDGET.MAX_UNITS)
+        : source === 'simulate'
+            ? await simulateComputeUnits(connection, instructions, payer, options.margin, lookupTables)
+            : estimateComputeUnits(instructions);
+
+    let microLamports = await getPriorityFeeEstimate(connection, instructions, options.priorityFee || 'none');
+    if (options.maxMicroLamports !== undefined) {
+        microLamports = Math.min(microLamports, options.maxMicroLamports);
+    }
+
+    const budgetInstructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit })];
+    if (microLamports > 0) {
+        budgetInstructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    }
+
+    return {
+        instructions: budgetInstructions,
+        computeUnitLimit,
+        microLamports,
+        priorityFee: calculatePriorityFee(computeUnitLimit, microLamports),
+    };
+}
+
+// Compute units for a program instruction, from COMPUTE_UNITS and the size-dependent estimators
+function getInstructionComputeUnits(instruction: DecodedInstruction): number {
+    switch (instruction.type) {
+        case 'InitializePool':
+            return COMPUTE_UNITS.INITIALIZE_POOL;
+        case 'Deposit':
+            return COMPUTE_UNITS.DEPOSIT;
+        case 'Withdraw':
+            return COMPUTE_UNITS.WITHDRAW;
+        case 'Swap':
+            return COMPUTE_UNITS.SWAP;
+        case 'GetTreasuryInfo':
+            return COMPUTE_UNITS.GET_TREASURY_INFO;
+        case 'DonateSol':
+            return calculateDonationComputeUnits(instruction.amount);
+        case 'ConsolidatePoolFees':
+            return calculateConsolidationComputeUnits(instruction.remainingAccounts.length);
+        default:
+            // Administrative and query instructions
+            return COMPUTE_UNITS.GET_VERSION;
+    }
+}
+
+// Writable non-signer accounts of program instructions, deduplicated
+function getWritableProgramAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+    const accounts = new Map<string, PublicKey>();
+
+    for (const instruction of instructions) {
+        if (!instruction.programId.equals(PROGRAM_ID)) {
+            continue;
+        }
+        for (const key of instruction.keys) {
+            if (key.isWritable && !key.isSigner) {
+                accounts.set(key.pubkey.toBase58(), key.pubkey);
+            }
+        }
+    }
+
+    return Array.from(accounts.values()).slice(0, MAX_PRIORITY_FEE_ACCOUNTS);
+}
+
+// Nearest-rank percentile (0 for no samples)
+function percentile(values: number[], rank: number): number {
+    if (values.length === 0) {
+        return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((rank / 100) * sorted.length) - 1));
+    return sorted[index];
+}
@@ -0,0 +1,121 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { CONSOLIDATION, PROGRAM_ID } from './constants';
+import { decodePoolState } from './accounts/pool';
+import { getProtocolState } from './accounts/protocol';
+import { fetchMultipleAccounts } from './accounts/reader';
+import {
+    calculateConsolidationComputeUnits,
+    createConsolidatePoolFeesInstruction,
+} from './instructions/treasury';
+import {
+    ConsolidationBatch,
+    ConsolidationCandidate,
+    ConsolidationPlan,
+    SkippedConsolidation,
+} from './types';
+
+/**
+ * Fee consolidation planning
+ */
+
+/**
+ * Plan fee consolidation for a set of pools
+ * Mirrors the contract's checks: a paused system consolidates any pool, otherwise a pool needs both
+ * swaps and liquidity paused; each pool moves its pending fees, capped at its balance above the
+ * rent-exempt minimum. Eligible pools are split into batches of at most 20.
+ * @param connection - Solana connection
+ * @param poolStatePDAs - Pools to consolidate
+ * @param version - Contract version to build the batches for (defaults to the active version)
+ * @returns Promise<ConsolidationPlan> - Batches with instructions and compute units, and skipped pools with reasons
+ */
+export async function planConsolidation(
+    connection: Connection,
+    poolStatePDAs: PublicKey[],
+    version?: string
+): Promise<ConsolidationPlan> {
+    const { systemState } = await getProtocolState(connection);
+    if (!systemState) {
+        throw new Error("System state not found");
+    }
+
+    const accounts = await fetchMultipleAccounts(connection, poolStatePDAs);
+    const rentExemptMinimums = new Map<number, BN>();
+    const eligible: ConsolidationCandidate[] = [];
+    const skipped: SkippedConsolidation[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 0; i < poolStatePDAs.length; i++) {
+        const poolStatePDA = poolStatePDAs[i];
+        const account = accounts[i];
+        const skip = (reason: SkippedConsolidation['reason'], message: string) => {
+            skipped.push({ poolStatePDA, reason, message });
+        };
+
+        if (seen.has(poolStatePDA.toBase58())) {
+            skip('duplicate', "Pool is listed more than once");
+            continue;
+        }
+        seen.add(poolStatePDA.toBase58());
+
+        if (!account || !account.owner.equals(PROGRAM_ID)) {
+            skip('notFound', "Pool state account not found");
+            continue;
+        }
+
+        const poolState = decodePoolState(account.data);
+        if (!systemState.isPaused && !(poolState.swapsPaused && poolState.liquidityPaused)) {
+            skip('notPaused', "System is active and the pool does not have both swaps and liquidity paused");
+            continue;
+        }
+        if (poolState.pendingSolFees.isZero()) {
+            skip('noPendingFees', "No fees pending consolidation");
+            continue;
+        }
+
+        let rentExemptMinimum = rentExemptMinimums.get(account.data.length);
+        if (!rentExemptMinimum) {
+            rentExemptMinimum = new BN(await connection.getMinimumBalanceForRentExemption(account.data.length));
+            rentExemptMinimums.set(account.data.length, rentExemptMinimum);
+        }
+
+        const lamports = new BN(account.lamports);
+        const aboveRent = lamports.gt(rentExemptMinimum) ? lamports.sub(rentExemptMinimum) : new BN(0);
+        if (aboveRent.isZero()) {
+            skip('rentProtected', "Pool balance is at its rent-exempt minimum");
+            continue;
+        }
+
+        const availableForConsolidation = BN.min(poolState.pendingSolFees, aboveRent);
+        eligible.push({
+            poolStatePDA,
+            pendingSolFees: poolState.pendingSolFees,
+            lamports,
+            rentExemptMinimum,
+            availableForConsolidation,
+            partial: availableForConsolidation.lt(poolState.pendingSolFees),
+        });
+    }
+
+    const batches: ConsolidationBatch[] = [];
+    for (let i = 0; i < eligible.length; i += CONSOLIDATION.MAX_POOLS_PER_BATCH) {
+        const pools = eligible.slice(i, i + CONSOLIDATION.MAX_POOLS_PER_BATCH);
+        batches.push({
+            pools,
+            instruction: createConsolidatePoolFeesInstruction(pools.map(pool => pool.poolStatePDA), version),
+            computeUnits: calculateConsolidationComputeUnits(pools.length),
+            totalAvailable: sumAvailable(pools),
+        });
+    }
+
+    return {
+        systemPaused: systemState.isPaused,
+        batches,
+        skipped,
+        totalAvailable: sumAvailable(eligible),
+    };
+}
+
+function sumAvailable(pools: ConsolidationCandidate[]): BN {
+    return pools.reduce((sum, pool) => sum.add(pool.availableForConsolidation), new BN(0));
+}
@@ -8,7 +8,14 @@ import BN from 'bn.js';
 // Program ID for the Fixed Ratio Trading contract on Solana Mainnet
 export const PROGRAM_ID = new PublicKey("4aeVqtWhrUh6wpX8acNj2hpWXKEQwxjA3PYb2sHhNyCn");
 
-// Instruction enum matching the contract
+// BPF upgradeable loader that owns the program's ProgramData account
+export const BPF_LOADER_UPGRADEABLE_PROGRAM_ID = new PublicKey("BPFLoaderUpgradeab1e11111111111111111111111");
+
+// Contract version this library build targets by default
+export const PROGRAM_VERSION = '0.15.1053';
+
+// Instruction enum matching the 0.14 contract generation
+// Builders resolve discriminators through the version-aware registry in ./registry
 export const PoolInstruction = {
     // System Management
     InitializeProgram: 0,
@@ -45,6 +52,14 @@ export const FEES = {
     MIN_DONATION_AMOUNT: new BN(100_000_000), // 0.1 SOL minimum donation
 } as const;
 
+// Pool fee limits enforced by UpdatePoolFees (in lamports)
+export const FEE_LIMITS = {
+    MIN_LIQUIDITY_FEE: new BN(100_000), // 0.0001 SOL
+    MAX_LIQUIDITY_FEE: new BN(10_000_000), // 0.01 SOL
+    MIN_SWAP_FEE: new BN(10_000), // 0.00001 SOL
+    MAX_SWAP_FEE: new BN(1_000_000), // 0.001 SOL
+} as const;
+
 // Compute unit limits for different operations
 export const COMPUTE_UNITS = {
     GET_VERSION: 50_000,
@@ -57,6 +72,48 @@ export const COMPUTE_UNITS = {
     CONSOLIDATE_POOL_FEES: 54_000, // For ~10 pools
 } as const;
 
+// Compute budget limits and defaults for the ComputeBudgetProgram layer
+export const COMPUTE_BUDGET = {
+    MAX_UNITS: 1_400_000, // Per-transaction runtime limit
+    DEFAULT_INSTRUCTION_UNITS: 25_000, // Non-program instructions (e.g. ATA creation)
+    SIMULATION_MARGIN: 0.1, // 10% headroom over simulated consumption
+} as const;
+
+// Main treasury withdrawal rate limiting
+export const TREASURY_WITHDRAWAL = {
+    BASE_HOURLY_RATE: new BN(10_000_000_000), // 10 SOL per hour
+    RATE_SCALING_MULTIPLIER: 10, // Rate grows 10x per balance tier
+    MAX_DRAIN_TIME_HOURS: 48, // Tiers scale until the balance drains within 48 hours
+    RATE_LIMIT_WINDOW_SECONDS: 3600, // One withdrawal per 60-minute window
+} as const;
+
+// Fee consolidation limits
+export const CONSOLIDATION = {
+    MAX_POOLS_PER_BATCH: 20, // Pools per ConsolidatePoolFees instruction
+} as const;
+
+// Transaction size limits for legacy and versioned (v0) messages
+export const TRANSACTION_LIMITS = {
+    PACKET_SIZE: 1232, // Maximum serialized transaction size in bytes
+    MAX_ACCOUNT_LOCKS: 64, // Maximum accounts a transaction can reference
+    LOOKUP_TABLE_MAX_ADDRESSES: 256, // Maximum addresses in one lookup table
+    LOOKUP_TABLE_EXTEND_BATCH: 20, // Addresses per extend instruction that fit in one transaction
+} as const;
+
+// Transaction submission: resend until confirmed or the blockhash expires
+export const SUBMISSION = {
+    RESEND_INTERVAL_MS: 2000, // Rebroadcast the signed transaction this often while unconfirmed
+    POLL_INTERVAL_MS: 500, // Signature status polling interval
+    MAX_RPC_FAILURES: 20, // Consecutive failed status or expiry reads before the status is reported unknown
+} as const;
+
+// Percentile of recent prioritization fees used by each priority level
+export const PRIORITY_FEE_PERCENTILES = {
+    low: 25,
+    medium: 50,
+    high: 75,
+} as const;
+
 // PDA seed constants
 export const SEEDS = {
     SYSTEM_STATE: "system_state",
@@ -68,8 +125,79 @@ export const SEEDS = {
     LP_TOKEN_B_MINT: "lp_token_b_mint",
 } as const;
 
-// Error codes from the contract
+// Account data sizes (bytes) allocated by the contract
+export const ACCOUNT_SIZES = {
+    POOL_STATE: 597,
+    SYSTEM_STATE: 10,
+    MAIN_TREASURY_STATE: 136, // 17 documented u64/i64 fields (the API summary lists 128)
+} as const;
+
+// Byte offsets of PoolState fields used for getProgramAccounts memcmp filters
+export const POOL_STATE_OFFSETS = {
+    OWNER: 0,
+    TOKEN_A_MINT: 32,
+    TOKEN_B_MINT: 64,
+    FLAGS: 261,
+} as const;
+
+// Pool state flags (bitwise)
+export const POOL_FLAGS = {
+    ONE_TO_MANY_RATIO: 1,
+    LIQUIDITY_PAUSED: 2,
+    SWAPS_PAUSED: 4,
+    WITHDRAWAL_PROTECTION: 8,
+    SINGLE_LP_TOKEN: 16,
+    SWAP_FOR_OWNERS_ONLY: 32,
+} as const;
+
+// Pool pause/unpause flags (PausePool, UnpausePool)
+export const PAUSE_FLAGS = {
+    LIQUIDITY: 1,
+    SWAPS: 2,
+    ALL: 3,
+} as const;
+
+// Fee update flags (UpdatePoolFees)
+export const FEE_UPDATE_FLAGS = {
+    LIQUIDITY: 1,
+    SWAP: 2,
+    BOTH: 3,
+} as const;
+
+// System pause reason codes (PauseSystem)
+export const PAUSE_REASON_CODES = {
+    EMERGENCY_SECURITY: 1,
+    SCHEDULED_MAINTENANCE: 2,
+    CONTRACT_UPGRADE: 3,
+    REGULATORY_COMPLIANCE: 4,
+    INFRASTRUCTURE_ISSUE: 5,
+    ECONOMIC_EMERGENCY: 6,
+    CONSOLIDATION: 15,
+} as const;
+
+// Custom error codes returned by the contract (ProgramError::Custom)
+// See ERROR_CODE_TABLES in ./errors for messages and remediation hints
 export const ERROR_CODES = {
+    InvalidTokenPair: 1001,
+    InvalidRatio: 1002,
+    InsufficientFunds: 1003,
+    InvalidTokenAccount: 1004,
+    InvalidSwapAmount: 1005,
+    RentExemptError: 1006,
+    PoolPaused: 1007,
+    Unauthorized: 1012,
+    ArithmeticOverflow: 1019,
+    SystemPaused: 1023,
+    SystemAlreadyPaused: 1024,
+    SystemNotPaused: 1025,
+    UnauthorizedAccess: 1026,
+    PoolSwapsPaused: 1027,
+    PoolSwapsAlreadyPaused: 1029,
+    PoolSwapsNotPaused: 1030,
+} as const;
+
+// Error codes used by the 0.14 contract generation
+export const LEGACY_ERROR_CODES = {
     SystemPaused: 6006,
     PoolPaused: 6007,
     SlippageExceeded: 6008,
@@ -0,0 +1,148 @@
+import BN from 'bn.js';
+import { DecimalInput, RoundingMode } from './types';
+
+/**
+ * Exact conversion between display amounts and base units (basis points, lamports)
+ * Amounts are handled as decimal digit strings, never as floating point products
+ */
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// Exponents beyond this (plus the token's decimals) are rejected instead of expanded into huge digit strings
+const MAX_EXPONENT = 100;
+
+// SPL mints store decimals as a u8
+const MAX_DECIMALS = 255;
+
+/**
+ * Parse a display amount into base units
+ * Numbers are read through their shortest decimal representation, so 0.29 SOL is exactly 290000000 lamports
+ * @param amount - Display amount (e.g. "1.5", 1.5, 2n or "2.5e-3")
+ * @param decimals - Token decimals
+ * @param rounding - How to round digits beyond the token's decimals (default 'down')
+ * @returns BN amount in base units
+ */
+export function parseDecimalAmount(
+    amount: DecimalInput,
+    decimals: number,
+    rounding: RoundingMode = 'down'
+): BN {
+    validateDecimals(decimals);
+
+    const text = typeof amount === 'number'
+        ? numberToString(amount)
+        : typeof amount === 'bigint' ? amount.toString() : amount.trim();
+    const match = text.match(DECIMAL_PATTERN);
+    if (!match || (!match[2] && !match[3])) {
+        throw new Error(`Invalid decimal amount: ${text}`);
+    }
+
+    const [, sign, integerDigits, fractionDigits = '', exponent = '0'] = match;
+    const digits = integerDigits + fractionDigits;
+    const exponentValue = parseInt(exponent, 10);
+    if (Math.abs(exponentValue) > MAX_EXPONENT + decimals) {
+        throw new Error(`Decimal amount exponent out of range: ${text}`);
+    }
+
+    // Number of digits to append (positive) or drop (negative) to reach base units
+    const shift = decimals + exponentValue - fractionDigits.length;
+    let magnitude: BN;
+    if (shift >= 0) {
+        magnitude = new BN(digits + '0'.repeat(shift));
+    } else {
+        const keepLength = digits.length + shift;
+        const kept = keepLength > 0 ? digits.slice(0, keepLength) : '';
+        const dropped = keepLength > 0 ? digits.slice(keepLength) : '0'.repeat(-keepLength) + digits;
+        magnitude = roundDigits(kept, dropped, rounding, text);
+    }
+
+    return sign === '-' ? magnitude.neg() : magnitude;
+}
+
+/**
+ * Format base units as a display amount string
+ * @param amount - Amount in base units
+ * @param decimals - Token decimals
+ * @param options - Fixed number of fraction digits (default: all significant digits) and rounding (default 'halfUp')
+ * @returns Display amount (e.g. "1.5")
+ */
+export function formatDecimalAmount(
+    amount: BN | bigint | string,
+    decimals: number,
+    options: { fractionDigits?: number; rounding?: RoundingMode } = {}
+): string {
+    validateDecimals(decimals);
+
+    const value = BN.isBN(amount) ? amount as BN : new BN(amount.toString(), 10);
+    const digits = value.abs().toString(10).padStart(decimals + 1, '0');
+    let integerPart = digits.slice(0, digits.length - decimals);
+    let fractionPart = digits.slice(digits.length - decimals);
+
+    const { fractionDigits } = options;
+    if (fractionDigits !== undefined) {
+        validateDecimals(fractionDigits);
+        if (fractionDigits < decimals) {
+            const rounded = roundDigits(
+                integerPart + fractionPart.slice(0, fractionDigits),
+                fractionPart.slice(fractionDigits),
+                options.rounding || 'halfUp',
+                digits
+            ).toString(10).padStart(fractionDigits + 1, '0');
+            integerPart = rounded.slice(0, rounded.length - fractionDigits);
+            fractionPart = rounded.slice(rounded.length - fractionDigits);
+        } else {
+            fractionPart = fractionPart.padEnd(fractionDigits, '0');
+        }
+    } else {
+        fractionPart = fractionPart.replace(/0+$/, '');
+    }
+
+    const sign = value.isNeg() && /[1-9]/.test(integerPart + fractionPart) ? '-' : '';
+    return `${sign}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`;
+}
+
+// Round the kept digits by the dropped ones; magnitudes only, so 'down' is toward zero
+function roundDigits(kept: string, dropped: string, rounding: RoundingMode, original: string): BN {
+    const base = new BN(kept || '0');
+    const firstDropped = dropped.charCodeAt(0) - 48;
+    const restNonZero = /[1-9]/.test(dropped.slice(1));
+
+    if (!/[1-9]/.test(dropped)) {
+        return base;
+    }
+
+    let roundUp: boolean;
+    switch (rounding) {
+        case 'down':
+            roundUp = false;
+            break;
+        case 'up':
+            roundUp = true;
+            break;
+        case 'halfUp':
+            roundUp = firstDropped >= 5;
+            break;
+        case 'halfEven':
+            roundUp = firstDropped > 5 || (firstDropped === 5 && (restNonZero || base.isOdd()));
+            break;
+        case 'exact':
+            throw new Error(`Amount ${original} has more precision than the token's decimals`);
+        default:
+            throw new Error(`Unknown rounding mode: ${rounding}`);
+    }
+
+    return roundUp ? base.addn(1) : base;
+}
+
+function numberToString(amount: number): string {
+    if (!Number.isFinite(amount)) {
+        throw new Error(`Invalid decimal amount: ${amount}`);
+    }
+    return String(amount);
+}
+
+function validateDecimals(decimals: number): void {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+        throw new Error(`Invalid decimals: ${decimals}`);
+    }
+}
@@ -0,0 +1,195 @@
+import {
+    CompiledInstruction,
+    MessageCompiledInstruction,
+    PublicKey,
+    TransactionInstruction,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import { PROGRAM_ID } from './constants';
+import { decodeBase58 } from './utils';
+import { decodeInstructionData, InstructionFieldValue, InstructionName } from './registry';
+
+/**
+ * Decoding of Fixed Ratio Trading instructions (inverse of the builders)
+ */
+
+// Account order emitted by each builder
+const ACCOUNT_LAYOUTS = {
+    InitializeProgram: ['authority', 'systemProgram', 'rent', 'systemState', 'mainTreasury', 'programData'],
+    InitializePool: [
+        'user', 'systemProgram', 'systemState', 'pool', 'tokenProgram', 'mainTreasury', 'rent',
+        'tokenAMint', 'tokenBMint', 'tokenAVault', 'tokenBVault', 'lpTokenAMint', 'lpTokenBMint',
+    ],
+    Deposit: [
+        'user', 'systemState', 'pool', 'userTokenAccount', 'tokenVault', 'otherTokenVault',
+        'lpTokenMint', 'userLpAccount', 'tokenProgram', 'systemProgram', 'mainTreasury', 'depositTokenMint',
+    ],
+    Withdraw: [
+        'user', 'systemState', 'pool', 'userTokenAccount', 'tokenVault', 'lpTokenMint',
+        'userLpAccount', 'tokenProgram', 'systemProgram', 'mainTreasury', 'withdrawTokenMint',
+    ],
+    Swap: [
+        'user', 'systemState', 'pool', 'userInputAccount', 'userOutputAccount', 'inputVault',
+        'outputVault', 'tokenProgram', 'systemProgram', 'mainTreasury', 'inputTokenMint',
+    ],
+    PauseSystem: ['authority', 'systemState', 'programData'],
+    UnpauseSystem: ['authority', 'systemState', 'mainTreasury', 'programData'],
+    PoolAuthority: ['authority', 'systemState', 'pool', 'programData'],
+    WithdrawTreasuryFees: ['authority', 'mainTreasury', 'rent', 'destination', 'systemState', 'programData'],
+    GetTreasuryInfo: ['systemState', 'mainTreasury'],
+    DonateSol: ['donor', 'mainTreasury', 'systemState', 'systemProgram'],
+    ConsolidatePoolFees: ['systemState', 'mainTreasury'],
+    GetConsolidationStatus: ['systemState', 'mainTreasury'],
+    PoolQuery: ['pool'],
+    None: [],
+} as const;
+
+type AccountLayouts = typeof ACCOUNT_LAYOUTS;
+type DecodedAccounts<K extends keyof AccountLayouts> = Record<AccountLayouts[K][number], PublicKey>;
+
+interface DecodedBase<T extends InstructionName, K extends keyof AccountLayouts> {
+    type: T;
+    accounts: DecodedAccounts<K>;
+    remainingAccounts: PublicKey[]; // Accounts beyond the named layout (e.g. consolidated pools)
+}
+
+export type DecodedInstruction =
+    | DecodedBase<'InitializeProgram', 'InitializeProgram'>
+    | DecodedBase<'InitializePool', 'InitializePool'> & { ratioANumerator: BN; ratioBDenominator: BN }
+    | DecodedBase<'Deposit', 'Deposit'> & { depositTokenMint: PublicKey; amount: BN }
+    | DecodedBase<'Withdraw', 'Withdraw'> & { withdrawTokenMint: PublicKey; lpAmountToBurn: BN }
+    | DecodedBase<'Swap', 'Swap'> & { inputTokenMint: PublicKey; amountIn: BN; minAmountOut: BN }
+    | DecodedBase<'PauseSystem', 'PauseSystem'> & { reasonCode: number }
+    | DecodedBase<'UnpauseSystem', 'UnpauseSystem'>
+    | DecodedBase<'PausePool', 'PoolAuthority'> & { flags: number }
+    | DecodedBase<'UnpausePool', 'PoolAuthority'> & { flags: number }
+    | DecodedBase<'UpdatePoolFees', 'PoolAuthority'> & { updateFlags: number; newLiquidityFee: BN; newSwapFee: BN }
+    | DecodedBase<'SetSwapOwnerOnly', 'PoolAuthority'> & { enableRestriction: boolean; designatedOwner: PublicKey }
+    | DecodedBase<'WithdrawTreasuryFees', 'WithdrawTreasuryFees'> & { amount: BN }
+    | DecodedBase<'GetTreasuryInfo', 'GetTreasuryInfo'>
+    | DecodedBase<'DonateSol', 'DonateSol'> & { amount: BN; message: string }
+    | DecodedBase<'GetVersion', 'None'>
+    | DecodedBase<'ConsolidatePoolFees', 'ConsolidatePoolFees'> & { poolCount: number }
+    | DecodedBase<'GetConsolidationStatus', 'GetConsolidationStatus'> & { poolCount: number }
+    | DecodedBase<'GetPoolInfo', 'PoolQuery'>
+    | DecodedBase<'GetPoolPauseStatus', 'PoolQuery'>
+    | DecodedBase<'GetLiquidityInfo', 'PoolQuery'>
+    | DecodedBase<'GetFeeInfo', 'PoolQuery'>
+    | DecodedBase<'GetPoolSolBalance', 'PoolQuery'>
+    | DecodedBase<'GetPoolStatePDA', 'None'> & { primaryTokenMint: PublicKey; ratio: BN }
+    | DecodedBase<'GetTokenVaultPDAs', 'None'> & { poolStatePDA: PublicKey };
+
+// Account layout used by each instruction
+const INSTRUCTION_ACCOUNTS: Record<InstructionName, keyof AccountLayouts> = {
+    InitializeProgram: 'InitializeProgram',
+    InitializePool: 'InitializePool',
+    Deposit: 'Deposit',
+    Withdraw: 'Withdraw',
+    Swap: 'Swap',
+    PauseSystem: 'PauseSystem',
+    UnpauseSystem: 'UnpauseSystem',
+    PausePool: 'PoolAuthority',
+    UnpausePool: 'PoolAuthority',
+    UpdatePoolFees: 'PoolAuthority',
+    SetSwapOwnerOnly: 'PoolAuthority',
+    WithdrawTreasuryFees: 'WithdrawTreasuryFees',
+    GetTreasuryInfo: 'GetTreasuryInfo',
+    DonateSol: 'DonateSol',
+    GetVersion: 'None',
+    ConsolidatePoolFees: 'ConsolidatePoolFees',
+    GetConsolidationStatus: 'GetConsolidationStatus',
+    GetPoolInfo: 'PoolQuery',
+    GetPoolPauseStatus: 'PoolQuery',
+    GetLiquidityInfo: 'PoolQuery',
+    GetFeeInfo: 'PoolQuery',
+    GetPoolSolBalance: 'PoolQuery',
+    GetPoolStatePDA: 'None',
+    GetTokenVaultPDAs: 'None',
+};
+
+/**
+ * Decode a Fixed Ratio Trading instruction
+ * Compiled instructions need the message's account keys to resolve their indexes
+ * @param ix - Instruction (TransactionInstruction, legacy CompiledInstruction or v0 MessageCompiledInstruction)
+ * @param accountKeys - Message account keys (required for compiled instructions)
+ * @param version - Contract version (defaults to the active version)
+ * @returns Typed decoded instruction
+ */
+export function decodeInstruction(
+    ix: TransactionInstruction | CompiledInstruction | MessageCompiledInstruction,
+    accountKeys?: PublicKey[],
+    version?: string
+): DecodedInstruction {
+    const { programId, keys, data } = resolveInstruction(ix, accountKeys);
+
+    if (!programId.equals(PROGRAM_ID)) {
+        throw new Error(`Not a Fixed Ratio Trading instruction: program ${programId.toBase58()}`);
+    }
+
+    const { name, values } = decodeInstructionData(data, version);
+    const layout: readonly string[] = ACCOUNT_LAYOUTS[INSTRUCTION_ACCOUNTS[name]];
+
+    if (keys.length < layout.length) {
+        throw new Error(`Invalid ${name} instruction: expected at least ${layout.length} accounts, got ${keys.length}`);
+    }
+
+    const accounts: Record<string, PublicKey> = {};
+    layout.forEach((accountName, index) => {
+        accounts[accountName] = keys[index];
+    });
+
+    // The Swap data field carries the slippage-adjusted minimum output
+    const fields: Record<string, InstructionFieldValue> = name === 'Swap'
+        ? { inputTokenMint: values.inputTokenMint, amountIn: values.amountIn, minAmountOut: values.expectedAmountOut }
+        : values;
+
+    return {
+        type: name,
+        ...fields,
+        accounts,
+        remainingAccounts: keys.slice(layout.length),
+    } as DecodedInstruction;
+}
+
+/**
+ * Check whether an instruction targets the Fixed Ratio Trading program
+ * @param ix - Instruction to check
+ * @param accountKeys - Message account keys (required for compiled instructions)
+ * @returns True if the instruction's program is PROGRAM_ID
+ */
+export function isFixedRatioTradingInstruction(
+    ix: TransactionInstruction | CompiledInstruction | MessageCompiledInstruction,
+    accountKeys?: PublicKey[]
+): boolean {
+    if (ix instanceof TransactionInstruction) {
+        return ix.programId.equals(PROGRAM_ID);
+    }
+    const key = accountKeys?.[ix.programIdIndex];
+    return key !== undefined && key.equals(PROGRAM_ID);
+}
+
+function resolveInstruction(
+    ix: TransactionInstruction | CompiledInstruction | MessageCompiledInstruction,
+    accountKeys?: PublicKey[]
+): { programId: PublicKey; keys: PublicKey[]; data: Buffer } {
+    if (ix instanceof TransactionInstruction) {
+        return { programId: ix.programId, keys: ix.keys.map(meta => meta.pubkey), data: ix.data };
+    }
+
+    if (!accountKeys) {
+        throw new Error('Account keys are required to decode a compiled instruction');
+    }
+
+    const lookup = (index: number) => {
+        const key = accountKeys[index];
+        if (!key) {
+            throw new Error(`Account index ${index} is out of range (${accountKeys.length} keys)`);
+        }
+        return key;
+    };
+
+    const indexes = 'accountKeyIndexes' in ix ? ix.accountKeyIndexes : ix.accounts;
+    const data = typeof ix.data === 'string' ? decodeBase58(ix.data) : Buffer.from(ix.data);
+
+    return { programId: lookup(ix.programIdIndex), keys: indexes.map(lookup), data };
+}
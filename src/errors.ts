@@ -0,0 +1,462 @@
+import { SendTransactionError, SimulatedTransactionResponse, TransactionError } from '@solana/web3.js';
+import { ERROR_CODES, LEGACY_ERROR_CODES } from './constants';
+import { getActiveContractVersion, INSTRUCTION_SCHEMAS, resolveSchemaGeneration } from './registry';
+
+/**
+ * Typed errors for Fixed Ratio Trading program failures
+ */
+
+export type FrtErrorCategory = 'paused' | 'unauthorized' | 'funds' | 'validation' | 'state' | 'unknown';
+
+export interface ErrorCodeDefinition {
+    name: string;
+    message: string;
+    category: FrtErrorCategory;
+    hint: string;
+}
+
+export interface FrtErrorDetails {
+    code: number | null;
+    errorName: string;
+    message: string;
+    hint?: string | null;
+    instructionIndex?: number | null;
+    logs?: string[];
+    cause?: unknown;
+}
+
+// Custom error codes returned by each contract generation (keys match INSTRUCTION_SCHEMAS)
+export const ERROR_CODE_TABLES: Record<string, Record<number, ErrorCodeDefinition>> = {
+    '0.14': {
+        [LEGACY_ERROR_CODES.SystemPaused]: {
+            name: 'SystemPaused',
+            message: 'System is paused',
+            category: 'paused',
+            hint: 'Wait for the program authority to unpause the system, then retry',
+        },
+        [LEGACY_ERROR_CODES.PoolPaused]: {
+            name: 'PoolPaused',
+            message: 'Pool is paused',
+            category: 'paused',
+            hint: 'Check the pool pause status and retry once the pool is unpaused',
+        },
+        [LEGACY_ERROR_CODES.SlippageExceeded]: {
+            name: 'SlippageExceeded',
+            message: 'Slippage tolerance exceeded',
+            category: 'validation',
+            hint: 'Refresh the quote or lower the minimum output amount',
+        },
+        [LEGACY_ERROR_CODES.InsufficientBalance]: {
+            name: 'InsufficientBalance',
+            message: 'Insufficient balance',
+            category: 'funds',
+            hint: 'Top up the token account or reduce the amount',
+        },
+        [LEGACY_ERROR_CODES.InvalidAmount]: {
+            name: 'InvalidAmount',
+            message: 'Invalid amount',
+            category: 'validation',
+            hint: 'Use a non-zero amount in basis points (smallest token units)',
+        },
+        [LEGACY_ERROR_CODES.InvalidRatio]: {
+            name: 'InvalidRatio',
+            message: 'Invalid ratio',
+            category: 'validation',
+            hint: 'Use non-zero ratio values expressed in basis points',
+        },
+        [LEGACY_ERROR_CODES.PoolAlreadyExists]: {
+            name: 'PoolAlreadyExists',
+            message: 'Pool already exists',
+            category: 'state',
+            hint: 'Use the existing pool for this token pair and ratio',
+        },
+        [LEGACY_ERROR_CODES.PoolNotFound]: {
+            name: 'PoolNotFound',
+            message: 'Pool not found',
+            category: 'state',
+            hint: 'Check the token mints and ratio used to derive the pool PDA',
+        },
+        [LEGACY_ERROR_CODES.Unauthorized]: {
+            name: 'Unauthorized',
+            message: 'Unauthorized',
+            category: 'unauthorized',
+            hint: 'Sign with the program upgrade authority or the pool owner',
+        },
+        [LEGACY_ERROR_CODES.InvalidTokenMint]: {
+            name: 'InvalidTokenMint',
+            message: 'Invalid token mint',
+            category: 'validation',
+            hint: "Pass one of the pool's token mints",
+        },
+        [LEGACY_ERROR_CODES.InvalidAccount]: {
+            name: 'InvalidAccount',
+            message: 'Invalid account',
+            category: 'validation',
+            hint: 'Rebuild the instruction so its accounts match the pool PDAs',
+        },
+    },
+    '0.15': {
+        [ERROR_CODES.InvalidTokenPair]: {
+            name: 'InvalidTokenPair',
+            message: 'Invalid token pair configuration',
+            category: 'validation',
+            hint: 'Use two different mints that belong to the pool',
+        },
+        [ERROR_CODES.InvalidRatio]: {
+            name: 'InvalidRatio',
+            message: 'Invalid ratio configuration (outside bounds)',
+            category: 'validation',
+            hint: 'Use non-zero ratio values expressed in basis points',
+        },
+        [ERROR_CODES.InsufficientFunds]: {
+            name: 'InsufficientFunds',
+            message: 'Insufficient funds for the operation',
+            category: 'funds',
+            hint: 'Top up the token account or SOL balance, or reduce the amount',
+        },
+        [ERROR_CODES.InvalidTokenAccount]: {
+            name: 'InvalidTokenAccount',
+            message: 'Invalid token account state or configuration',
+            category: 'validation',
+            hint: 'Check that the token accounts exist, are owned by the signer and use the right mints',
+        },
+        [ERROR_CODES.InvalidSwapAmount]: {
+            name: 'InvalidSwapAmount',
+            message: 'Swap amount outside allowed bounds',
+            category: 'validation',
+            hint: 'Refresh the quote or adjust the swap amount and minimum output',
+        },
+        [ERROR_CODES.RentExemptError]: {
+            name: 'RentExemptError',
+            message: 'Insufficient funds for rent exemption',
+            category: 'funds',
+            hint: 'Leave enough SOL in the account to stay rent exempt',
+        },
+        [ERROR_CODES.PoolPaused]: {
+            name: 'PoolPaused',
+            message: 'Pool operations are currently paused',
+            category: 'paused',
+            hint: 'Check the pool pause status and retry once the pool is unpaused',
+        },
+        [ERROR_CODES.Unauthorized]: {
+            name: 'Unauthorized',
+            message: 'Unauthorized operation',
+            category: 'unauthorized',
+            hint: 'Sign with the pool owner or the designated swap owner',
+        },
+        [ERROR_CODES.ArithmeticOverflow]: {
+            name: 'ArithmeticOverflow',
+            message: 'Arithmetic overflow error',
+            category: 'validation',
+            hint: 'Reduce the amount so the ratio calculation stays within u64',
+        },
+        [ERROR_CODES.SystemPaused]: {
+            name: 'SystemPaused',
+            message: 'System is paused - all operations blocked except unpause',
+            category: 'paused',
+            hint: 'Wait for the program authority to unpause the system, then retry',
+        },
+        [ERROR_CODES.SystemAlreadyPaused]: {
+            name: 'SystemAlreadyPaused',
+            message: 'System is already paused',
+            category: 'state',
+            hint: 'No action needed; the system is already paused',
+        },
+        [ERROR_CODES.SystemNotPaused]: {
+            name: 'SystemNotPaused',
+            message: 'System is not paused',
+            category: 'state',
+            hint: 'No action needed; the system is already running',
+        },
+        [ERROR_CODES.UnauthorizedAccess]: {
+            name: 'UnauthorizedAccess',
+            message: 'Unauthorized access to system controls',
+            category: 'unauthorized',
+            hint: 'Sign with the program upgrade authority',
+        },
+        [ERROR_CODES.PoolSwapsPaused]: {
+            name: 'PoolSwapsPaused',
+            message: 'Pool swaps are currently paused by owner',
+            category: 'paused',
+            hint: 'Retry once the pool owner resumes swaps',
+        },
+        [ERROR_CODES.PoolSwapsAlreadyPaused]: {
+            name: 'PoolSwapsAlreadyPaused',
+            message: 'Pool swaps are already paused',
+            category: 'state',
+            hint: 'No action needed; swaps are already paused',
+        },
+        [ERROR_CODES.PoolSwapsNotPaused]: {
+            name: 'PoolSwapsNotPaused',
+            message: 'Pool swaps are not currently paused',
+            category: 'state',
+            hint: 'No action needed; swaps are already enabled',
+        },
+    },
+};
+
+/**
+ * Base class for Fixed Ratio Trading errors
+ */
+export class FrtError extends Error {
+    readonly code: number | null;
+    readonly errorName: string;
+    readonly hint: string | null;
+    readonly instructionIndex: number | null;
+    readonly logs: string[];
+    readonly cause?: unknown;
+
+    constructor(details: FrtErrorDetails) {
+        super(details.message);
+        this.name = new.target.name;
+        this.code = details.code;
+        this.errorName = details.errorName;
+        this.hint = details.hint ?? null;
+        this.instructionIndex = details.instructionIndex ?? null;
+        this.logs = details.logs || [];
+        this.cause = details.cause;
+    }
+}
+
+// The system or pool is paused
+export class FrtPausedError extends FrtError {}
+
+// The signer lacks the required authority
+export class FrtUnauthorizedError extends FrtError {}
+
+// Token or SOL balance too low
+export class FrtInsufficientFundsError extends FrtError {}
+
+// Instruction arguments or accounts rejected by the contract
+export class FrtValidationError extends FrtError {}
+
+// Operation conflicts with the current system or pool state
+export class FrtStateError extends FrtError {}
+
+// The blockhash expired before the transaction landed; it is safe to rebuild and resend
+export class FrtExpiredError extends FrtError {}
+
+// The RPC kept failing before the transaction's status was known; it may still land
+export class FrtUnknownStatusError extends FrtError {
+    readonly signature: string;
+
+    constructor(details: FrtErrorDetails, signature: string) {
+        super(details);
+        this.signature = signature;
+    }
+}
+
+// A query's program logs lacked a field it reports, or the value could not be parsed
+export class FrtQueryParseError extends FrtError {}
+
+const ERROR_CLASSES: Record<FrtErrorCategory, new (details: FrtErrorDetails) => FrtError> = {
+    paused: FrtPausedError,
+    unauthorized: FrtUnauthorizedError,
+    funds: FrtInsufficientFundsError,
+    validation: FrtValidationError,
+    state: FrtStateError,
+    unknown: FrtError,
+};
+
+/**
+ * Look up a custom error code
+ * The version's generation is checked first; generations use disjoint code ranges,
+ * so other generations are searched when the contract version was not detected
+ * @param errorCode - Custom program error code
+ * @param version - Contract version (defaults to the active version)
+ * @returns ErrorCodeDefinition or null if the code is unknown
+ */
+export function getErrorDefinition(
+    errorCode: number,
+    version: string = getActiveContractVersion()
+): ErrorCodeDefinition | null {
+    const generation = resolveSchemaGeneration(version);
+    const generations = [generation, ...Object.keys(INSTRUCTION_SCHEMAS).filter(key => key !== generation)];
+
+    for (const key of generations) {
+        const definition = ERROR_CODE_TABLES[key]?.[errorCode];
+        if (definition) {
+            return definition;
+        }
+    }
+    return null;
+}
+
+/**
+ * Parse error code from transaction logs
+ * @param logs - Transaction logs
+ * @returns Error code or null if not found
+ */
+export function parseErrorCode(logs: string[]): number | null {
+    for (const log of logs) {
+        const match = log.match(/custom program error: 0x([0-9a-fA-F]+)/i);
+        if (match) {
+            return parseInt(match[1], 16);
+        }
+    }
+    return null;
+}
+
+/**
+ * Format error message from error code
+ * @param errorCode - The error code
+ * @param version - Contract version (defaults to the active version)
+ * @returns Human-readable error message
+ */
+export function formatError(errorCode: number, version?: string): string {
+    const definition = getErrorDefinition(errorCode, version);
+    return definition ? definition.message : `Unknown error code: ${errorCode}`;
+}
+
+/**
+ * Create the typed error for a custom program error code
+ * @param errorCode - Custom program error code
+ * @param context - Instruction index, logs and underlying error
+ * @param version - Contract version (defaults to the active version)
+ * @returns FrtError subclass matching the code's category
+ */
+export function createFrtError(
+    errorCode: number,
+    context: Pick<FrtErrorDetails, 'instructionIndex' | 'logs' | 'cause'> = {},
+    version?: string
+): FrtError {
+    const definition = getErrorDefinition(errorCode, version);
+
+    if (!definition) {
+        return new FrtError({
+            ...context,
+            code: errorCode,
+            errorName: 'Unknown',
+            message: `Unknown error code: ${errorCode}`,
+        });
+    }
+
+    return new ERROR_CLASSES[definition.category]({
+        ...context,
+        code: errorCode,
+        errorName: definition.name,
+        message: definition.message,
+        hint: definition.hint,
+    });
+}
+
+/**
+ * Convert a transaction error (e.g. {"InstructionError":[1,{"Custom":1023}]}) to a typed error
+ * @param error - Transaction error from a simulation or confirmation
+ * @param logs - Program logs of the failed transaction
+ * @param version - Contract version (defaults to the active version)
+ * @returns FrtError
+ */
+export function fromInstructionError(
+    error: TransactionError,
+    logs: string[] = [],
+    version?: string
+): FrtError {
+    const instructionError = (error as { InstructionError?: [number, unknown] } | null)?.InstructionError;
+
+    if (!Array.isArray(instructionError)) {
+        return fromErrorPayload(JSON.stringify(error), logs, error, version);
+    }
+
+    const [instructionIndex, detail] = instructionError;
+    const custom = (detail as { Custom?: number } | null)?.Custom;
+
+    if (typeof custom === 'number') {
+        return createFrtError(custom, { instructionIndex, logs, cause: error }, version);
+    }
+
+    // Built-in runtime errors such as "InvalidAccountData"
+    const errorName = typeof detail === 'string' ? detail : JSON.stringify(detail);
+    return new FrtError({
+        code: null,
+        errorName,
+        message: `Instruction ${instructionIndex} failed: ${errorName}`,
+        instructionIndex,
+        logs,
+        cause: error,
+    });
+}
+
+/**
+ * Convert a failed simulation to a typed error
+ * @param result - Simulation result (connection.simulateTransaction(...).value)
+ * @param version - Contract version (defaults to the active version)
+ * @returns FrtError or null if the simulation succeeded
+ */
+export function fromSimulationResult(
+    result: SimulatedTransactionResponse,
+    version?: string
+): FrtError | null {
+    if (!result.err) {
+        return null;
+    }
+    return fromInstructionError(result.err, result.logs || [], version);
+}
+
+/**
+ * Convert a SendTransactionError (preflight or simulation failure) to a typed error
+ * @param error - Error thrown by sendTransaction / sendAndConfirmTransaction
+ * @param version - Contract version (defaults to the active version)
+ * @returns FrtError
+ */
+export function fromSendTransactionError(
+    error: SendTransactionError,
+    version?: string
+): FrtError {
+    return fromErrorPayload(error.message, error.logs || [], error, version);
+}
+
+/**
+ * Convert any thrown value to a typed error
+ * Handles FrtError, SendTransactionError, simulation results, transaction errors
+ * and errors whose message embeds a transaction error (e.g. confirmTransaction failures)
+ * @param error - Thrown value
+ * @param version - Contract version (defaults to the active version)
+ * @returns FrtError
+ */
+export function toFrtError(error: unknown, version?: string): FrtError {
+    if (error instanceof FrtError) {
+        return error;
+    }
+    if (error instanceof SendTransactionError) {
+        return fromSendTransactionError(error, version);
+    }
+    if (error && typeof error === 'object') {
+        if ('InstructionError' in error) {
+            return fromInstructionError(error as TransactionError, [], version);
+        }
+        if ('err' in error && 'logs' in error) {
+            const simulationError = fromSimulationResult(error as SimulatedTransactionResponse, version);
+            if (simulationError) {
+                return simulationError;
+            }
+        }
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const logs = (error as { logs?: unknown } | null)?.logs;
+    return fromErrorPayload(message, Array.isArray(logs) ? logs : [], error, version);
+}
+
+// Extract the code and instruction index from an error message and logs
+function fromErrorPayload(message: string, logs: string[], cause: unknown, version?: string): FrtError {
+    const indexMatch = message.match(/Error processing Instruction (\d+)/i)
+        || message.match(/"InstructionError":\[(\d+)/);
+    const instructionIndex = indexMatch ? parseInt(indexMatch[1], 10) : null;
+
+    const customMatch = message.match(/"Custom":(\d+)/);
+    const errorCode = customMatch ? parseInt(customMatch[1], 10) : parseErrorCode([message, ...logs]);
+
+    if (errorCode !== null) {
+        return createFrtError(errorCode, { instructionIndex, logs, cause }, version);
+    }
+
+    return new FrtError({
+        code: null,
+        errorName: 'Unknown',
+        message,
+        instructionIndex,
+        logs,
+        cause,
+    });
+}
@@ -11,8 +11,11 @@
 
 // Import Solana types used in this file for type annotations
 import {
+    AddressLookupTableAccount,
     PublicKey,
     Connection,
+    TransactionInstruction,
+    VersionedTransaction,
 } from '@solana/web3.js';
 
 // Export constants
@@ -24,12 +27,73 @@ export * from './types';
 // Export utilities
 export * from './utils';
 
+// Export typed program errors
+export * from './errors';
+
+// Export account decoders
+export * from './accounts/pool';
+export * from './accounts/protocol';
+export * from './accounts/pair';
+
+// Export cached account store
+export * from './store';
+
+// Export live subscriptions
+export * from './subscriptions';
+
+// Export transaction history
+export * from './activity';
+
+// Export version-aware instruction schema registry
+export * from './registry';
+
+// Export instruction decoder
+export * from './decoder';
+
+// Export native SOL wrapping
+export * from './wsol';
+
+// Export SPL Token and Token-2022 mint support
+export * from './token';
+
+// Export compute budget and priority fees
+export * from './compute';
+
+// Export address lookup tables and versioned transactions
+export * from './lookup';
+
+// Export multi-operation transaction packer
+export * from './packer';
+
+// Export signers for keypairs, wallets and offline signing
+export * from './signer';
+
+// Export fee consolidation planning
+export * from './consolidation';
+
+// Export treasury withdrawal limits
+export * from './withdrawal';
+
+// Export durable nonce helpers
+export * from './nonce';
+
+// Export transaction submission with rebroadcasting
+export * from './submit';
+
+// Export exact decimal amount conversion
+export * from './decimal';
+
+// Export send workflows
+export * from './workflows';
+
 // Export instruction builders
 export * from './instructions/public';
 export * from './instructions/pool';
 export * from './instructions/liquidity';
 export * from './instructions/swap';
 export * from './instructions/treasury';
+export * from './instructions/admin';
+export * from './instructions/query';
 
 // Re-export commonly used Solana types for convenience
 export {
@@ -54,37 +118,98 @@ export { default as BN } from 'bn.js';
 
 // Export version information
 export const VERSION = '1.0.0';
-export const PROGRAM_VERSION = '0.14.1040';
 
 /**
  * Main client class for Fixed Ratio Trading operations
  */
 export class FixedRatioTradingClient {
+    public store: PoolStore;
+    // Contract version this client's builders, queries and workflows encode for
+    public contractVersion: string;
+
     constructor(
         public connection: Connection,
-        public programId: PublicKey = PROGRAM_ID
-    ) {}
+        public programId: PublicKey = PROGRAM_ID,
+        storeOptions?: PoolStoreOptions,
+        contractVersion: string = getActiveContractVersion()
+    ) {
+        this.store = new PoolStore(connection, storeOptions);
+        this.contractVersion = contractVersion;
+        resolveSchemaGeneration(contractVersion); // Validate up front
+    }
+
+    // Contract version
+    setContractVersion(version: string) {
+        resolveSchemaGeneration(version); // Validate before switching
+        this.contractVersion = version;
+    }
 
     // Public functions
     async getContractVersion() {
         return getContractVersion(this.connection);
     }
 
+    async detectContractVersion() {
+        this.contractVersion = await detectContractVersion(this.connection);
+        return this.contractVersion;
+    }
+
     async getTreasuryInfo() {
-        return getTreasuryInfo(this.connection);
+        return getTreasuryInfo(this.connection, this.contractVersion);
+    }
+
+    async getProtocolState() {
+        return getProtocolState(this.connection);
+    }
+
+    async getTreasuryWithdrawalStatus() {
+        return getTreasuryWithdrawalStatus(this.connection);
+    }
+
+    // Simulation-only pool queries
+    async queryPoolInfo(poolStatePDA: PublicKey, options?: QueryOptions) {
+        return queryPoolInfo(this.connection, poolStatePDA, this.queryOptions(options));
+    }
+
+    async queryPoolPauseStatus(poolStatePDA: PublicKey, options?: QueryOptions) {
+        return queryPoolPauseStatus(this.connection, poolStatePDA, this.queryOptions(options));
+    }
+
+    async queryLiquidityInfo(poolStatePDA: PublicKey, options?: QueryOptions) {
+        return queryLiquidityInfo(this.connection, poolStatePDA, this.queryOptions(options));
+    }
+
+    async queryFeeInfo(poolStatePDA: PublicKey, options?: QueryOptions) {
+        return queryFeeInfo(this.connection, poolStatePDA, this.queryOptions(options));
+    }
+
+    async queryPoolSolBalance(poolStatePDA: PublicKey, options?: QueryOptions) {
+        return queryPoolSolBalance(this.connection, poolStatePDA, this.queryOptions(options));
+    }
+
+    async queryConsolidationStatus(poolStatePDAs: PublicKey[], options?: QueryOptions) {
+        return queryConsolidationStatus(this.connection, poolStatePDAs, this.queryOptions(options));
+    }
+
+    async queryPoolStatePDA(primaryTokenMint: PublicKey, ratio: BN, options?: QueryOptions) {
+        return queryPoolStatePDA(this.connection, primaryTokenMint, ratio, this.queryOptions(options));
+    }
+
+    async queryTokenVaultPDAs(poolStatePDA: PublicKey, options?: QueryOptions) {
+        return queryTokenVaultPDAs(this.connection, poolStatePDA, this.queryOptions(options));
     }
 
     // Pool management
     createInitializePoolInstruction(params: PoolCreationParams) {
-        return createInitializePoolInstruction(params);
+        return createInitializePoolInstruction(params, this.contractVersion);
     }
 
     createPoolWithDisplayAmounts(
         userAuthority: PublicKey,
         tokenAMint: PublicKey,
         tokenBMint: PublicKey,
-        tokenAAmount: number,
-        tokenBAmount: number,
+        tokenAAmount: DecimalInput,
+        tokenBAmount: DecimalInput,
         tokenADecimals: number,
         tokenBDecimals: number
     ) {
@@ -95,7 +220,8 @@ export class FixedRatioTradingClient {
             tokenAAmount,
             tokenBAmount,
             tokenADecimals,
-            tokenBDecimals
+            tokenBDecimals,
+            this.contractVersion
         );
     }
 
@@ -109,32 +235,216 @@ export class FixedRatioTradingClient {
     }
 
     async doesPoolExist(poolStatePDA: PublicKey) {
-        return doesPoolExist(this.connection, poolStatePDA);
+        try {
+            return (await this.store.getPoolState(poolStatePDA)) !== null;
+        } catch (error) {
+            return false;
+        }
     }
 
-    // Liquidity operations
-    createDepositInstruction(params: LiquidityParams) {
-        return createDepositInstruction(params);
+    async getPoolState(poolStatePDA: PublicKey) {
+        return this.store.getPoolState(poolStatePDA);
     }
 
-    createWithdrawInstruction(
-        poolStatePDA: PublicKey,
-        withdrawAmount: BN,
-        withdrawTokenMint: PublicKey,
-        userAuthority: PublicKey,
-        userLpAccount: PublicKey,
-        userTokenAccount: PublicKey
+    async getPool(poolStatePDA: PublicKey) {
+        return this.store.getPool(poolStatePDA);
+    }
+
+    async getPools(poolStatePDAs: PublicKey[]) {
+        return this.store.getPools(poolStatePDAs);
+    }
+
+    async listPools(filter?: PoolFilter) {
+        return listPools(this.connection, filter);
+    }
+
+    async findPoolsForPair(mintX: PublicKey, mintY: PublicKey, inputMint?: PublicKey) {
+        return findPoolsForPair(this.connection, mintX, mintY, inputMint);
+    }
+
+    // Live subscriptions
+    watchPool(poolStatePDA: PublicKey, handler: (update: PoolUpdate) => void, options?: WatchOptions) {
+        return watchPool(this.connection, poolStatePDA, handler, options);
+    }
+
+    watchSystemState(handler: (update: SystemStateUpdate) => void, options?: WatchOptions) {
+        return watchSystemState(this.connection, handler, options);
+    }
+
+    // Transaction history
+    async getPoolActivity(poolStatePDA: PublicKey, options?: ActivityOptions) {
+        return getPoolActivity(this.connection, poolStatePDA, options);
+    }
+
+    async getWalletActivity(owner: PublicKey, options?: ActivityOptions) {
+        return getWalletActivity(this.connection, owner, options);
+    }
+
+    // Native SOL wrapping
+    createWrapSolInstructions(owner: PublicKey, lamports: BN) {
+        return createWrapSolInstructions(owner, lamports);
+    }
+
+    createUnwrapSolInstruction(owner: PublicKey) {
+        return createUnwrapSolInstruction(owner);
+    }
+
+    // Token programs and Token-2022 mints
+    async getPoolTokenPrograms(tokenAMint: PublicKey, tokenBMint: PublicKey) {
+        return getPoolTokenPrograms(this.connection, tokenAMint, tokenBMint);
+    }
+
+    async getTokenMintInfos(mints: PublicKey[]) {
+        return getTokenMintInfos(this.connection, mints);
+    }
+
+    // Address lookup tables
+    createProtocolLookupTableInstructions(
+        authority: PublicKey,
+        payer: PublicKey,
+        recentSlot: number,
+        poolStatePDAs?: PublicKey[],
+        tokenProgram?: PublicKey
     ) {
-        return createWithdrawInstruction(
-            poolStatePDA,
-            withdrawAmount,
-            withdrawTokenMint,
-            userAuthority,
-            userLpAccount,
-            userTokenAccount
+        return createProtocolLookupTableInstructions(authority, payer, recentSlot, poolStatePDAs, tokenProgram);
+    }
+
+    async createExtendProtocolLookupTableInstructions(
+        lookupTableAddress: PublicKey,
+        authority: PublicKey,
+        poolStatePDAs: PublicKey[],
+        payer?: PublicKey
+    ) {
+        return createExtendProtocolLookupTableInstructions(
+            this.connection,
+            lookupTableAddress,
+            authority,
+            poolStatePDAs,
+            payer
         );
     }
 
+    async fetchLookupTables(addresses: PublicKey[]) {
+        return fetchLookupTables(this.connection, addresses);
+    }
+
+    async buildVersionedTransaction(
+        payer: PublicKey,
+        instructions: TransactionInstruction[],
+        lookupTables?: AddressLookupTableAccount[]
+    ) {
+        const { blockhash } = await this.connection.getLatestBlockhash();
+        return buildVersionedTransaction(payer, instructions, blockhash, lookupTables);
+    }
+
+    // Durable nonces
+    async createNonceAccountInstructions(payer: PublicKey, nonceAccount: PublicKey, authority?: PublicKey) {
+        return createNonceAccountInstructions(this.connection, payer, nonceAccount, authority);
+    }
+
+    async getNonceInfo(nonceAccount: PublicKey) {
+        return getNonceInfo(this.connection, nonceAccount);
+    }
+
+    buildNonceTransaction(
+        payer: PublicKey,
+        instructions: TransactionInstruction[],
+        nonce: NonceInfo,
+        lookupTables?: AddressLookupTableAccount[]
+    ) {
+        return buildNonceTransaction(payer, instructions, nonce, lookupTables);
+    }
+
+    async broadcastNonceTransaction(
+        signedTransaction: string,
+        options?: SubmitOptions
+    ) {
+        return broadcastNonceTransaction(this.connection, signedTransaction, options);
+    }
+
+    // Transaction packing
+    packOperations(payer: PublicKey, operations: PackOperation[], options?: PackOptions) {
+        return packOperations(payer, operations, options);
+    }
+
+    // Compute budget and priority fees
+    async prepareComputeBudget(
+        instructions: TransactionInstruction[],
+        payer: PublicKey,
+        options?: ComputeBudgetOptions,
+        lookupTables?: AddressLookupTableAccount[]
+    ) {
+        return prepareComputeBudget(this.connection, instructions, payer, options, lookupTables);
+    }
+
+    async getPriorityFeeEstimate(instructions: TransactionInstruction[], strategy: PriorityFeeStrategy) {
+        return getPriorityFeeEstimate(this.connection, instructions, strategy);
+    }
+
+    // Send workflows (fetch, prepare accounts, simulate, sign, send and confirm)
+    async swap<S extends SignerInput>(signer: S, params: SwapExecutionParams, options?: ExecutionOptions) {
+        return executeSwap(this.connection, signer, params, this.executionOptions(options), this.store);
+    }
+
+    async deposit<S extends SignerInput>(signer: S, params: DepositExecutionParams, options?: ExecutionOptions) {
+        return executeDeposit(this.connection, signer, params, this.executionOptions(options), this.store);
+    }
+
+    async withdraw<S extends SignerInput>(signer: S, params: WithdrawExecutionParams, options?: ExecutionOptions) {
+        return executeWithdraw(this.connection, signer, params, this.executionOptions(options), this.store);
+    }
+
+    async donate<S extends SignerInput>(signer: S, params: DonationExecutionParams, options?: ExecutionOptions) {
+        return executeDonation(this.connection, signer, params, this.executionOptions(options));
+    }
+
+    async planConsolidation(poolStatePDAs: PublicKey[]) {
+        return planConsolidation(this.connection, poolStatePDAs, this.contractVersion);
+    }
+
+    async executeConsolidation<S extends SignerInput>(
+        signer: S,
+        plan: ConsolidationPlan,
+        options?: ExecutionOptions
+    ) {
+        return executeConsolidation(this.connection, signer, plan, this.executionOptions(options), this.store);
+    }
+
+    async submitTransaction(
+        transaction: VersionedTransaction,
+        lastValidBlockHeight: number,
+        options?: SubmitOptions
+    ) {
+        return submitTransaction(this.connection, transaction, lastValidBlockHeight, options);
+    }
+
+    async sendAndConfirm(transaction: VersionedTransaction, lastValidBlockHeight: number, options?: SubmitOptions) {
+        return sendAndConfirm(this.connection, transaction, lastValidBlockHeight, options);
+    }
+
+    async submitSignedTransaction(
+        unsigned: UnsignedExecution,
+        signedTransaction: string,
+        options?: ExecutionOptions
+    ) {
+        return submitSignedTransaction(
+            this.connection,
+            unsigned,
+            signedTransaction,
+            this.executionOptions(options),
+            this.store
+        );
+    }
+
+    // Liquidity operations
+    createDepositInstruction(params: LiquidityParams) {
+        return createDepositInstruction(params, this.contractVersion);
+    }
+
+    createWithdrawInstruction(params: WithdrawParams) {
+        return createWithdrawInstruction(params, this.contractVersion);
+    }
+
     calculateDepositAmounts(
         depositAmount: BN,
         depositTokenMint: PublicKey,
@@ -153,7 +463,7 @@ export class FixedRatioTradingClient {
 
     // Swap operations
     createSwapInstruction(params: SwapParams) {
-        return createSwapInstruction(params);
+        return createSwapInstruction(params, this.contractVersion);
     }
 
     calculateExpectedSwapOutput(
@@ -161,14 +471,16 @@ export class FixedRatioTradingClient {
         inputTokenMint: PublicKey,
         poolRatioA: BN,
         poolRatioB: BN,
-        tokenAMint: PublicKey
+        tokenAMint: PublicKey,
+        transferFees?: SwapTransferFees
     ) {
         return calculateExpectedSwapOutput(
             amountIn,
             inputTokenMint,
             poolRatioA,
             poolRatioB,
-            tokenAMint
+            tokenAMint,
+            transferFees
         );
     }
 
@@ -189,56 +501,173 @@ export class FixedRatioTradingClient {
     }
 
     async isPoolPublicSwapEnabled(poolStatePDA: PublicKey) {
-        return isPoolPublicSwapEnabled(this.connection, poolStatePDA);
+        const poolState = await this.store.getPoolState(poolStatePDA);
+        if (!poolState) {
+            throw new Error("Failed to check pool swap mode: Pool not found");
+        }
+        return !poolState.swapForOwnersOnly;
+    }
+
+    async quoteSwap(poolStatePDA: PublicKey, inputTokenMint: PublicKey, amountIn: BN) {
+        const pool = await this.store.getPool(poolStatePDA);
+        if (!pool) {
+            throw new Error("Pool not found");
+        }
+        const { tokenA, tokenB } = await getPoolTokenPrograms(
+            this.connection,
+            pool.poolState.tokenAMint,
+            pool.poolState.tokenBMint
+        );
+        const isTokenA = inputTokenMint.equals(pool.poolState.tokenAMint);
+        const transferFees = await getSwapTransferFees(
+            this.connection,
+            isTokenA ? tokenA : tokenB,
+            isTokenA ? tokenB : tokenA
+        );
+        return quoteSwap(pool, inputTokenMint, amountIn, transferFees);
     }
 
     // Treasury operations
     createDonateSolInstruction(params: DonationParams) {
-        return createDonateSolInstruction(params);
+        return createDonateSolInstruction(params, this.contractVersion);
     }
 
     createConsolidatePoolFeesInstruction(poolStatePDAs: PublicKey[]) {
-        return createConsolidatePoolFeesInstruction(poolStatePDAs);
+        return createConsolidatePoolFeesInstruction(poolStatePDAs, this.contractVersion);
     }
 
     createDonationInstructionWithDisplayAmount(
         donor: PublicKey,
-        amountSOL: number,
+        amountSOL: DecimalInput,
         message?: string
     ) {
-        return createDonationInstructionWithDisplayAmount(donor, amountSOL, message);
+        return createDonationInstructionWithDisplayAmount(donor, amountSOL, message, this.contractVersion);
+    }
+
+    // Administrative operations (program upgrade authority)
+    createInitializeProgramInstruction(authority: PublicKey) {
+        return createInitializeProgramInstruction(authority, this.contractVersion);
+    }
+
+    createPauseSystemInstruction(authority: PublicKey, reasonCode: number) {
+        return createPauseSystemInstruction(authority, reasonCode, this.contractVersion);
+    }
+
+    createUnpauseSystemInstruction(authority: PublicKey) {
+        return createUnpauseSystemInstruction(authority, this.contractVersion);
+    }
+
+    createPausePoolInstruction(authority: PublicKey, poolStatePDA: PublicKey, pauseFlags: number) {
+        return createPausePoolInstruction(authority, poolStatePDA, pauseFlags, this.contractVersion);
+    }
+
+    createUnpausePoolInstruction(authority: PublicKey, poolStatePDA: PublicKey, unpauseFlags: number) {
+        return createUnpausePoolInstruction(authority, poolStatePDA, unpauseFlags, this.contractVersion);
+    }
+
+    createUpdatePoolFeesInstruction(params: UpdatePoolFeesParams) {
+        return createUpdatePoolFeesInstruction(params, this.contractVersion);
+    }
+
+    createSetSwapOwnerOnlyInstruction(params: SetSwapOwnerOnlyParams) {
+        return createSetSwapOwnerOnlyInstruction(params, this.contractVersion);
+    }
+
+    createWithdrawTreasuryFeesInstruction(params: WithdrawTreasuryFeesParams) {
+        return createWithdrawTreasuryFeesInstruction(params, this.contractVersion);
     }
 
     // Utility functions
-    toBasisPoints(amount: number, decimals: number) {
-        return toBasisPoints(amount, decimals);
+    toBasisPoints(amount: DecimalInput, decimals: number, rounding?: RoundingMode) {
+        return toBasisPoints(amount, decimals, rounding);
     }
 
     fromBasisPoints(basisPoints: BN, decimals: number) {
         return fromBasisPoints(basisPoints, decimals);
     }
 
+    formatDecimalAmount(amount: BN, decimals: number, options?: { fractionDigits?: number; rounding?: RoundingMode }) {
+        return formatDecimalAmount(amount, decimals, options);
+    }
+
     parseErrorCode(logs: string[]) {
         return parseErrorCode(logs);
     }
 
     formatError(errorCode: number) {
-        return formatError(errorCode);
+        return formatError(errorCode, this.contractVersion);
+    }
+
+    toFrtError(error: unknown) {
+        return toFrtError(error, this.contractVersion);
+    }
+
+    private queryOptions(options?: QueryOptions): QueryOptions {
+        return { contractVersion: this.contractVersion, ...options };
+    }
+
+    private executionOptions(options?: ExecutionOptions): ExecutionOptions {
+        return { contractVersion: this.contractVersion, ...options };
     }
 }
 
 // Import individual functions for re-export
 import { PROGRAM_ID } from './constants';
+import { getActiveContractVersion, resolveSchemaGeneration } from './registry';
 import {
     getContractVersion,
+    detectContractVersion,
     getTreasuryInfo,
 } from './instructions/public';
+import {
+    queryPoolInfo,
+    queryPoolPauseStatus,
+    queryLiquidityInfo,
+    queryFeeInfo,
+    queryPoolSolBalance,
+    queryConsolidationStatus,
+    queryPoolStatePDA,
+    queryTokenVaultPDAs,
+} from './instructions/query';
 import {
     createInitializePoolInstruction,
     createPoolWithDisplayAmounts,
     getPoolPDAs,
-    doesPoolExist,
 } from './instructions/pool';
+import { listPools } from './accounts/pool';
+import { getProtocolState } from './accounts/protocol';
+import { findPoolsForPair } from './accounts/pair';
+import { watchPool, watchSystemState } from './subscriptions';
+import { PoolStore } from './store';
+import { getPoolActivity, getWalletActivity } from './activity';
+import { createWrapSolInstructions, createUnwrapSolInstruction } from './wsol';
+import { getPoolTokenPrograms, getTokenMintInfos, getSwapTransferFees } from './token';
+import { prepareComputeBudget, getPriorityFeeEstimate } from './compute';
+import {
+    createProtocolLookupTableInstructions,
+    createExtendProtocolLookupTableInstructions,
+    fetchLookupTables,
+    buildVersionedTransaction,
+} from './lookup';
+import { packOperations } from './packer';
+import {
+    executeSwap,
+    executeDeposit,
+    executeWithdraw,
+    executeDonation,
+    submitSignedTransaction,
+    executeConsolidation,
+} from './workflows';
+import { planConsolidation } from './consolidation';
+import { getTreasuryWithdrawalStatus } from './withdrawal';
+import { submitTransaction, sendAndConfirm } from './submit';
+import { formatDecimalAmount } from './decimal';
+import {
+    createNonceAccountInstructions,
+    getNonceInfo,
+    buildNonceTransaction,
+    broadcastNonceTransaction,
+} from './nonce';
 import {
     createDepositInstruction,
     createWithdrawInstruction,
@@ -248,18 +677,64 @@ import {
     createSwapInstruction,
     calculateExpectedSwapOutput,
     calculateSwapWithPriceImpact,
-    isPoolPublicSwapEnabled,
+    quoteSwap,
 } from './instructions/swap';
 import {
     createDonateSolInstruction,
     createConsolidatePoolFeesInstruction,
     createDonationInstructionWithDisplayAmount,
 } from './instructions/treasury';
+import {
+    createInitializeProgramInstruction,
+    createPauseSystemInstruction,
+    createUnpauseSystemInstruction,
+    createPausePoolInstruction,
+    createUnpausePoolInstruction,
+    createUpdatePoolFeesInstruction,
+    createSetSwapOwnerOnlyInstruction,
+    createWithdrawTreasuryFeesInstruction,
+} from './instructions/admin';
 import {
     toBasisPoints,
     fromBasisPoints,
+} from './utils';
+import {
     parseErrorCode,
     formatError,
-} from './utils';
-import { PoolCreationParams, LiquidityParams, SwapParams, DonationParams } from './types';
+    toFrtError,
+} from './errors';
+import {
+    PoolCreationParams,
+    LiquidityParams,
+    WithdrawParams,
+    SwapParams,
+    DonationParams,
+    PoolFilter,
+    PoolStoreOptions,
+    PoolUpdate,
+    SystemStateUpdate,
+    WatchOptions,
+    UpdatePoolFeesParams,
+    SetSwapOwnerOnlyParams,
+    WithdrawTreasuryFeesParams,
+    QueryOptions,
+    ActivityOptions,
+    SwapExecutionParams,
+    DepositExecutionParams,
+    WithdrawExecutionParams,
+    DonationExecutionParams,
+    ExecutionOptions,
+    ComputeBudgetOptions,
+    PriorityFeeStrategy,
+    SwapTransferFees,
+    SignerInput,
+    UnsignedExecution,
+    PackOperation,
+    PackOptions,
+    ConsolidationPlan,
+    NonceInfo,
+    SubmitOptions,
+    DecimalInput,
+    RoundingMode,
+} from './types';
 import BN from 'bn.js';
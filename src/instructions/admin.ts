@@ -0,0 +1,350 @@
+import {
+    PublicKey,
+    TransactionInstruction,
+    SystemProgram,
+    SYSVAR_RENT_PUBKEY,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import { PROGRAM_ID, PAUSE_FLAGS, FEE_UPDATE_FLAGS, FEE_LIMITS } from '../constants';
+import {
+    deriveSystemStatePDA,
+    deriveMainTreasuryPDA,
+    deriveProgramDataAddress,
+} from '../utils';
+import {
+    SetSwapOwnerOnlyParams,
+    UpdatePoolFeesParams,
+    WithdrawTreasuryFeesParams,
+} from '../types';
+import { encodeInstructionData } from '../registry';
+
+/**
+ * Administrative operations - require the program upgrade authority
+ * The contract validates the signer against the ProgramData account
+ */
+
+/**
+ * Create an instruction to initialize the system state and main treasury
+ * Authority: Program upgrade authority (one-time operation)
+ * @param authority - Program upgrade authority
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createInitializeProgramInstruction(
+    authority: PublicKey,
+    version?: string
+): TransactionInstruction {
+    const [systemStatePDA] = deriveSystemStatePDA();
+    const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+    const [programDataAddress] = deriveProgramDataAddress();
+
+    return new TransactionInstruction({
+        keys: [
+            { pubkey: authority, isSigner: true, isWritable: true },
+            { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+            { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+            { pubkey: systemStatePDA, isSigner: false, isWritable: true },
+            { pubkey: mainTreasuryPDA, isSigner: false, isWritable: true },
+            { pubkey: programDataAddress, isSigner: false, isWritable: false },
+        ],
+        programId: PROGRAM_ID,
+        data: encodeInstructionData('InitializeProgram', {}, version),
+    });
+}
+
+/**
+ * Create an instruction to pause all system operations
+ * Authority: Program upgrade authority
+ * @param authority - Program upgrade authority
+ * @param reasonCode - Pause reason code (see PAUSE_REASON_CODES)
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createPauseSystemInstruction(
+    authority: PublicKey,
+    reasonCode: number,
+    version?: string
+): TransactionInstruction {
+    const [systemStatePDA] = deriveSystemStatePDA();
+    const [programDataAddress] = deriveProgramDataAddress();
+
+    return new TransactionInstruction({
+        keys: [
+            { pubkey: authority, isSigner: true, isWritable: true },
+            { pubkey: systemStatePDA, isSigner: false, isWritable: true },
+            { pubkey: programDataAddress, isSigner: false, isWritable: false },
+        ],
+        programId: PROGRAM_ID,
+        data: encodeInstructionData('PauseSystem', { reasonCode }, version),
+    });
+}
+
+/**
+ * Create an instruction to unpause the system
+ * Authority: Program upgrade authority
+ * Note: Unpausing applies the 71-hour treasury withdrawal penalty
+ * @param authority - Program upgrade authority
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createUnpauseSystemInstruction(
+    authority: PublicKey,
+    version?: string
+): TransactionInstruction {
+    const [systemStatePDA] = deriveSystemStatePDA();
+    const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+    const [programDataAddress] = deriveProgramDataAddress();
+
+    return new TransactionInstruction({
+        keys: [
+            { pubkey: authority, isSigner: true, isWritable: true },
+            { pubkey: systemStatePDA, isSigner: false, isWritable: true },
+            { pubkey: mainTreasuryPDA, isSigner: false, isWritable: true },
+            { pubkey: programDataAddress, isSigner: false, isWritable: false },
+        ],
+        programId: PROGRAM_ID,
+        data: encodeInstructionData('UnpauseSystem', {}, version),
+    });
+}
+
+/**
+ * Create an instruction to pause operations on a pool
+ * Authority: Program upgrade authority
+ * @param authority - Program upgrade authority
+ * @param poolStatePDA - Pool state PDA
+ * @param pauseFlags - Operations to pause (see PAUSE_FLAGS)
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createPausePoolInstruction(
+    authority: PublicKey,
+    poolStatePDA: PublicKey,
+    pauseFlags: number,
+    version?: string
+): TransactionInstruction {
+    return createPoolAuthorityInstruction(
+        authority,
+        poolStatePDA,
+        encodeInstructionData('PausePool', { flags: pauseFlags }, version)
+    );
+}
+
+/**
+ * Create an instruction to resume paused operations on a pool
+ * Authority: Program upgrade authority
+ * @param authority - Program upgrade authority
+ * @param poolStatePDA - Pool state PDA
+ * @param unpauseFlags - Operations to resume (see PAUSE_FLAGS)
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createUnpausePoolInstruction(
+    authority: PublicKey,
+    poolStatePDA: PublicKey,
+    unpauseFlags: number,
+    version?: string
+): TransactionInstruction {
+    return createPoolAuthorityInstruction(
+        authority,
+        poolStatePDA,
+        encodeInstructionData('UnpausePool', { flags: unpauseFlags }, version)
+    );
+}
+
+/**
+ * Create an instruction to update a pool's SOL fees
+ * Authority: Program upgrade authority
+ * @param params - Fee update parameters
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createUpdatePoolFeesInstruction(
+    params: UpdatePoolFeesParams,
+    version?: string
+): TransactionInstruction {
+    const { authority, poolStatePDA, updateFlags, newLiquidityFee, newSwapFee } = params;
+
+    return createPoolAuthorityInstruction(
+        authority,
+        poolStatePDA,
+        encodeInstructionData('UpdatePoolFees', { updateFlags, newLiquidityFee, newSwapFee }, version)
+    );
+}
+
+/**
+ * Create an instruction to enable or disable owner-only swaps on a pool
+ * Authority: Program upgrade authority
+ * Note: Enabling delegates pool ownership to the designated owner
+ * @param params - Owner-only parameters
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createSetSwapOwnerOnlyInstruction(
+    params: SetSwapOwnerOnlyParams,
+    version?: string
+): TransactionInstruction {
+    const { authority, poolStatePDA, enableRestriction, designatedOwner } = params;
+
+    return createPoolAuthorityInstruction(
+        authority,
+        poolStatePDA,
+        encodeInstructionData('SetSwapOwnerOnly', { enableRestriction, designatedOwner }, version)
+    );
+}
+
+/**
+ * Create an instruction to withdraw collected fees from the main treasury
+ * Authority: Program upgrade authority (rate limited)
+ * @param params - Withdrawal parameters (amount 0 withdraws all available)
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createWithdrawTreasuryFeesInstruction(
+    params: WithdrawTreasuryFeesParams,
+    version?: string
+): TransactionInstruction {
+    const { authority, destination, amount } = params;
+
+    const [systemStatePDA] = deriveSystemStatePDA();
+    const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+    const [programDataAddress] = deriveProgramDataAddress();
+
+    return new TransactionInstruction({
+        keys: [
+            { pubkey: authority, isSigner: true, isWritable: true },
+            { pubkey: mainTreasuryPDA, isSigner: false, isWritable: true },
+            { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+            { pubkey: destination, isSigner: false, isWritable: true },
+            { pubkey: systemStatePDA, isSigner: false, isWritable: false },
+            { pubkey: programDataAddress, isSigner: false, isWritable: false },
+        ],
+        programId: PROGRAM_ID,
+        data: encodeInstructionData('WithdrawTreasuryFees', { amount }, version),
+    });
+}
+
+/**
+ * Validate pool pause/unpause flags
+ * @param flags - Pause flags
+ * @returns Validation result
+ */
+export function validatePauseFlags(flags: number): {
+    isValid: boolean;
+    errors: string[];
+} {
+    const errors: string[] = [];
+
+    if (!Number.isInteger(flags) || flags < PAUSE_FLAGS.LIQUIDITY || flags > PAUSE_FLAGS.ALL) {
+        errors.push(`Pause flags must be ${PAUSE_FLAGS.LIQUIDITY} (liquidity), ${PAUSE_FLAGS.SWAPS} (swaps) or ${PAUSE_FLAGS.ALL} (all)`);
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+    };
+}
+
+/**
+ * Validate pool fee update parameters against the contract's fee limits
+ * @param params - Fee update parameters
+ * @returns Validation result
+ */
+export function validateUpdatePoolFeesParams(params: UpdatePoolFeesParams): {
+    isValid: boolean;
+    errors: string[];
+} {
+    const errors: string[] = [];
+    const { updateFlags, newLiquidityFee, newSwapFee } = params;
+
+    if (!Number.isInteger(updateFlags) ||
+        updateFlags < FEE_UPDATE_FLAGS.LIQUIDITY || updateFlags > FEE_UPDATE_FLAGS.BOTH) {
+        errors.push(`Update flags must be ${FEE_UPDATE_FLAGS.LIQUIDITY} (liquidity), ${FEE_UPDATE_FLAGS.SWAP} (swap) or ${FEE_UPDATE_FLAGS.BOTH} (both)`);
+    }
+
+    if ((updateFlags & FEE_UPDATE_FLAGS.LIQUIDITY) !== 0 &&
+        (newLiquidityFee.lt(FEE_LIMITS.MIN_LIQUIDITY_FEE) || newLiquidityFee.gt(FEE_LIMITS.MAX_LIQUIDITY_FEE))) {
+        errors.push(`Liquidity fee must be between ${FEE_LIMITS.MIN_LIQUIDITY_FEE.toString()} and ${FEE_LIMITS.MAX_LIQUIDITY_FEE.toString()} lamports`);
+    }
+
+    if ((updateFlags & FEE_UPDATE_FLAGS.SWAP) !== 0 &&
+        (newSwapFee.lt(FEE_LIMITS.MIN_SWAP_FEE) || newSwapFee.gt(FEE_LIMITS.MAX_SWAP_FEE))) {
+        errors.push(`Swap fee must be between ${FEE_LIMITS.MIN_SWAP_FEE.toString()} and ${FEE_LIMITS.MAX_SWAP_FEE.toString()} lamports`);
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+    };
+}
+
+/**
+ * Validate system pause reason code
+ * @param reasonCode - Pause reason code
+ * @returns Validation result
+ */
+export function validatePauseReasonCode(reasonCode: number): {
+    isValid: boolean;
+    errors: string[];
+} {
+    const errors: string[] = [];
+
+    // 0 is stored as "not paused" by the contract
+    if (!Number.isInteger(reasonCode) || reasonCode < 1 || reasonCode > 255) {
+        errors.push("Pause reason code must be between 1 and 255");
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+    };
+}
+
+/**
+ * Validate treasury withdrawal parameters
+ * @param params - Withdrawal parameters
+ * @param availableBalance - Optional balance available for withdrawal (lamports)
+ * @returns Validation result
+ */
+export function validateWithdrawTreasuryFeesParams(
+    params: WithdrawTreasuryFeesParams,
+    availableBalance?: BN
+): {
+    isValid: boolean;
+    errors: string[];
+} {
+    const errors: string[] = [];
+
+    if (params.amount.isNeg()) {
+        errors.push("Withdrawal amount cannot be negative");
+    }
+
+    if (availableBalance && !params.amount.isZero() && params.amount.gt(availableBalance)) {
+        errors.push("Withdrawal amount exceeds available treasury balance");
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+    };
+}
+
+// Shared account list for pool-level authority instructions
+function createPoolAuthorityInstruction(
+    authority: PublicKey,
+    poolStatePDA: PublicKey,
+    data: Buffer
+): TransactionInstruction {
+    const [systemStatePDA] = deriveSystemStatePDA();
+    const [programDataAddress] = deriveProgramDataAddress();
+
+    return new TransactionInstruction({
+        keys: [
+            { pubkey: authority, isSigner: true, isWritable: true },
+            { pubkey: systemStatePDA, isSigner: false, isWritable: false },
+            { pubkey: poolStatePDA, isSigner: false, isWritable: true },
+            { pubkey: programDataAddress, isSigner: false, isWritable: false },
+        ],
+        programId: PROGRAM_ID,
+        data,
+    });
+}
@@ -5,13 +5,17 @@ import {
 } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import BN from 'bn.js';
-import { PROGRAM_ID, PoolInstruction } from '../constants';
+import { PROGRAM_ID } from '../constants';
 import {
     deriveSystemStatePDA,
     deriveMainTreasuryPDA,
+    derivePoolSideAccounts,
     calculateRequiredLiquidity,
+    toBasisPoints,
 } from '../utils';
-import { LiquidityParams, LiquidityResult } from '../types';
+import { DecimalInput, LiquidityParams, LiquidityResult, WithdrawParams } from '../types';
+import { encodeInstructionData } from '../registry';
+import { getDisplayDecimals } from '../wsol';
 
 /**
  * Liquidity operations - deposit and withdraw functions for users
@@ -22,28 +26,35 @@ import { LiquidityParams, LiquidityResult } from '../types';
  * Authority: Any user
  * Fee: 0.0013 SOL deposit fee
  * @param params - Liquidity deposit parameters
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
-export function createDepositInstruction(params: LiquidityParams): TransactionInstruction {
+export function createDepositInstruction(params: LiquidityParams, version?: string): TransactionInstruction {
     const {
         poolStatePDA,
         depositAmount,
         depositTokenMint,
+        otherTokenMint,
         userAuthority,
         userTokenAccount,
         userLpAccount,
     } = params;
+    const tokenProgram = params.tokenProgram || TOKEN_PROGRAM_ID;
 
     // Derive required PDAs
     const [systemStatePDA] = deriveSystemStatePDA();
     const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+    const { tokenVault, otherTokenVault, lpTokenMint } = derivePoolSideAccounts(
+        poolStatePDA,
+        depositTokenMint,
+        otherTokenMint
+    );
 
     // Serialize instruction data
-    const instructionData = Buffer.concat([
-        Buffer.from([PoolInstruction.Deposit]),
-        depositTokenMint.toBuffer(),
-        depositAmount.toArrayLike(Buffer, 'le', 8)
-    ]);
+    const instructionData = encodeInstructionData('Deposit', {
+        depositTokenMint,
+        amount: depositAmount,
+    }, version);
 
     return new TransactionInstruction({
         keys: [
@@ -51,13 +62,14 @@ export function createDepositInstruction(params: LiquidityParams): TransactionIn
             { pubkey: systemStatePDA, isSigner: false, isWritable: false },
             { pubkey: poolStatePDA, isSigner: false, isWritable: true },
             { pubkey: userTokenAccount, isSigner: false, isWritable: true },
-            // Note: Pool token vaults and LP token accounts are derived by the program
-            // based on the deposit token mint and pool state
-            { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+            { pubkey: tokenVault, isSigner: false, isWritable: true },
+            { pubkey: otherTokenVault, isSigner: false, isWritable: true },
+            { pubkey: lpTokenMint, isSigner: false, isWritable: true },
+            { pubkey: userLpAccount, isSigner: false, isWritable: true },
+            { pubkey: tokenProgram, isSigner: false, isWritable: false },
             { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
             { pubkey: mainTreasuryPDA, isSigner: false, isWritable: true },
             { pubkey: depositTokenMint, isSigner: false, isWritable: false },
-            { pubkey: userLpAccount, isSigner: false, isWritable: true },
         ],
         programId: PROGRAM_ID,
         data: instructionData,
@@ -68,42 +80,52 @@ export function createDepositInstruction(params: LiquidityParams): TransactionIn
  * Create an instruction to withdraw liquidity from a pool
  * Authority: LP token holder
  * Fee: 0.0013 SOL withdrawal fee
- * @param poolStatePDA - Pool state PDA
- * @param withdrawAmount - Amount of LP tokens to burn
- * @param withdrawTokenMint - Token mint to receive (A or B)
- * @param userAuthority - User withdrawing liquidity
- * @param userLpAccount - User's LP token account
- * @param userTokenAccount - User's token account to receive funds
+ * @param params - Liquidity withdrawal parameters
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
-export function createWithdrawInstruction(
-    poolStatePDA: PublicKey,
-    withdrawAmount: BN,
-    withdrawTokenMint: PublicKey,
-    userAuthority: PublicKey,
-    userLpAccount: PublicKey,
-    userTokenAccount: PublicKey
-): TransactionInstruction {
+export function createWithdrawInstruction(params: WithdrawParams, version?: string): TransactionInstruction {
+    const {
+        poolStatePDA,
+        withdrawAmount,
+        withdrawTokenMint,
+        otherTokenMint,
+        userAuthority,
+        userLpAccount,
+        userTokenAccount,
+    } = params;
+    const tokenProgram = params.tokenProgram || TOKEN_PROGRAM_ID;
+
     // Derive required PDAs
     const [systemStatePDA] = deriveSystemStatePDA();
     const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+    const { tokenVault, lpTokenMint } = derivePoolSideAccounts(
+        poolStatePDA,
+        withdrawTokenMint,
+        otherTokenMint
+    );
 
     // Serialize instruction data
-    const instructionData = Buffer.concat([
-        Buffer.from([PoolInstruction.Withdraw]),
-        withdrawTokenMint.toBuffer(),
-        withdrawAmount.toArrayLike(Buffer, 'le', 8)
-    ]);
+    const instructionData = encodeInstructionData('Withdraw', {
+        withdrawTokenMint,
+        lpAmountToBurn: withdrawAmount,
+    }, version);
 
+    // api/FIXED_RATIO_TRADING_API.md (process_liquidity_withdraw) documents 11 accounts but no table.
+    // The order follows that file's Deposit account table (12 accounts) without index 5, the paired
+    // vault, which a single-sided withdrawal does not touch:
+    // 0 user authority, 1 system state, 2 pool state, 3 user token account, 4 pool token vault,
+    // 5 LP token mint, 6 user LP account, 7 token program, 8 system program, 9 main treasury, 10 withdraw mint
     return new TransactionInstruction({
         keys: [
             { pubkey: userAuthority, isSigner: true, isWritable: true },
             { pubkey: systemStatePDA, isSigner: false, isWritable: false },
             { pubkey: poolStatePDA, isSigner: false, isWritable: true },
-            { pubkey: userLpAccount, isSigner: false, isWritable: true },
             { pubkey: userTokenAccount, isSigner: false, isWritable: true },
-            // Pool token vault derived by program based on withdraw token mint
-            { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+            { pubkey: tokenVault, isSigner: false, isWritable: true },
+            { pubkey: lpTokenMint, isSigner: false, isWritable: true },
+            { pubkey: userLpAccount, isSigner: false, isWritable: true },
+            { pubkey: tokenProgram, isSigner: false, isWritable: false },
             { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
             { pubkey: mainTreasuryPDA, isSigner: false, isWritable: true },
             { pubkey: withdrawTokenMint, isSigner: false, isWritable: false },
@@ -207,6 +229,10 @@ export function validateDepositParams(params: LiquidityParams): {
         errors.push("Deposit amount must be positive");
     }
 
+    if (params.depositTokenMint.equals(params.otherTokenMint)) {
+        errors.push("Deposit and other token mints must differ");
+    }
+
     // Check for reasonable deposit size (avoid overflow)
     const maxDeposit = new BN(10).pow(new BN(15)); // 10^15 max
     if (params.depositAmount.gte(maxDeposit)) {
@@ -266,32 +292,38 @@ export function getWithdrawalFee(): BN {
 
 /**
  * Helper to create deposit instruction with display amounts
+ * Wrapped SOL deposits take SOL amounts (9 decimals); see createWrapSolInstructions for funding
  * @param poolStatePDA - Pool state PDA
  * @param depositAmountDisplay - Deposit amount in display units
  * @param tokenDecimals - Number of decimals for the token
  * @param depositTokenMint - Token being deposited
+ * @param otherTokenMint - The pool's other mint
  * @param userAuthority - User authority
  * @param userTokenAccount - User's token account
  * @param userLpAccount - User's LP token account
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
 export function createDepositInstructionWithDisplayAmount(
     poolStatePDA: PublicKey,
-    depositAmountDisplay: number,
+    depositAmountDisplay: DecimalInput,
     tokenDecimals: number,
     depositTokenMint: PublicKey,
+    otherTokenMint: PublicKey,
     userAuthority: PublicKey,
     userTokenAccount: PublicKey,
-    userLpAccount: PublicKey
+    userLpAccount: PublicKey,
+    version?: string
 ): TransactionInstruction {
-    const depositAmount = new BN(depositAmountDisplay * Math.pow(10, tokenDecimals));
+    const depositAmount = toBasisPoints(depositAmountDisplay, getDisplayDecimals(depositTokenMint, tokenDecimals));
     
     return createDepositInstruction({
         poolStatePDA,
         depositAmount,
         depositTokenMint,
+        otherTokenMint,
         userAuthority,
         userTokenAccount,
         userLpAccount,
-    });
+    }, version);
 }
@@ -6,7 +6,7 @@ import {
 } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import BN from 'bn.js';
-import { PROGRAM_ID, PoolInstruction } from '../constants';
+import { PROGRAM_ID } from '../constants';
 import {
     deriveSystemStatePDA,
     deriveMainTreasuryPDA,
@@ -14,8 +14,12 @@ import {
     deriveTokenVaultPDAs,
     deriveLPTokenMintPDAs,
     normalizeTokenOrder,
+    toBasisPoints,
 } from '../utils';
-import { PoolCreationParams } from '../types';
+import { DecimalInput, PoolCreationParams } from '../types';
+import { getPoolState } from '../accounts/pool';
+import { encodeInstructionData } from '../registry';
+import { getDisplayDecimals } from '../wsol';
 
 /**
  * Pool management functions for users (no upgrade authority required)
@@ -26,10 +30,15 @@ import { PoolCreationParams } from '../types';
  * Authority: Any user
  * Fee: 1.15 SOL registration fee
  * @param params - Pool creation parameters
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
-export function createInitializePoolInstruction(params: PoolCreationParams): TransactionInstruction {
+export function createInitializePoolInstruction(
+    params: PoolCreationParams,
+    version?: string
+): TransactionInstruction {
     const { tokenAMint, tokenBMint, ratioA, ratioB, userAuthority } = params;
+    const tokenProgram = params.tokenProgram || TOKEN_PROGRAM_ID;
 
     // Normalize token order for consistent PDA derivation
     const [mintA, mintB] = normalizeTokenOrder(tokenAMint, tokenBMint);
@@ -43,11 +52,10 @@ export function createInitializePoolInstruction(params: PoolCreationParams): Tra
     const { lpTokenAMint, lpTokenBMint } = deriveLPTokenMintPDAs(poolStatePDA);
 
     // Serialize instruction data
-    const instructionData = Buffer.concat([
-        Buffer.from([PoolInstruction.InitializePool]),
-        ratioA.toArrayLike(Buffer, 'le', 8),
-        ratioB.toArrayLike(Buffer, 'le', 8)
-    ]);
+    const instructionData = encodeInstructionData('InitializePool', {
+        ratioANumerator: ratioA,
+        ratioBDenominator: ratioB,
+    }, version);
 
     return new TransactionInstruction({
         keys: [
@@ -55,7 +63,7 @@ export function createInitializePoolInstruction(params: PoolCreationParams): Tra
             { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
             { pubkey: systemStatePDA, isSigner: false, isWritable: false },
             { pubkey: poolStatePDA, isSigner: false, isWritable: true },
-            { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+            { pubkey: tokenProgram, isSigner: false, isWritable: false },
             { pubkey: mainTreasuryPDA, isSigner: false, isWritable: true },
             { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
             { pubkey: mintA, isSigner: false, isWritable: false },
@@ -72,7 +80,8 @@ export function createInitializePoolInstruction(params: PoolCreationParams): Tra
 
 /**
  * Helper function to create pool with display amounts
- * Automatically converts display amounts to basis points
+ * Automatically converts display amounts to basis points (wrapped SOL sides take SOL amounts)
+ * Amounts must be exact at the token's decimals, since the ratio cannot change after creation
  * @param userAuthority - User creating the pool
  * @param tokenAMint - First token mint
  * @param tokenBMint - Second token mint
@@ -80,20 +89,22 @@ export function createInitializePoolInstruction(params: PoolCreationParams): Tra
  * @param tokenBAmount - Amount of token B in display units
  * @param tokenADecimals - Decimals for token A
  * @param tokenBDecimals - Decimals for token B
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
 export function createPoolWithDisplayAmounts(
     userAuthority: PublicKey,
     tokenAMint: PublicKey,
     tokenBMint: PublicKey,
-    tokenAAmount: number,
-    tokenBAmount: number,
+    tokenAAmount: DecimalInput,
+    tokenBAmount: DecimalInput,
     tokenADecimals: number,
-    tokenBDecimals: number
+    tokenBDecimals: number,
+    version?: string
 ): TransactionInstruction {
     // Convert to basis points
-    const ratioA = new BN(tokenAAmount * Math.pow(10, tokenADecimals));
-    const ratioB = new BN(tokenBAmount * Math.pow(10, tokenBDecimals));
+    const ratioA = toBasisPoints(tokenAAmount, getDisplayDecimals(tokenAMint, tokenADecimals), 'exact');
+    const ratioB = toBasisPoints(tokenBAmount, getDisplayDecimals(tokenBMint, tokenBDecimals), 'exact');
 
     return createInitializePoolInstruction({
         tokenAMint,
@@ -101,7 +112,7 @@ export function createPoolWithDisplayAmounts(
         ratioA,
         ratioB,
         userAuthority,
-    });
+    }, version);
 }
 
 /**
@@ -141,18 +152,18 @@ export function getPoolPDAs(
 }
 
 /**
- * Check if a pool exists by attempting to fetch its account
+ * Check if a pool exists by fetching and decoding its pool state account
  * @param connection - Solana connection
  * @param poolStatePDA - Pool state PDA to check
- * @returns Promise<boolean> - True if pool exists
+ * @returns Promise<boolean> - True if a valid pool state exists
  */
 export async function doesPoolExist(
     connection: any, // Using any to avoid circular import with Connection
     poolStatePDA: PublicKey
 ): Promise<boolean> {
     try {
-        const accountInfo = await connection.getAccountInfo(poolStatePDA);
-        return accountInfo !== null && accountInfo.data.length > 0;
+        const poolState = await getPoolState(connection, poolStatePDA);
+        return poolState !== null;
     } catch (error) {
         return false;
     }
@@ -2,16 +2,16 @@ import {
     Connection,
     PublicKey,
     TransactionInstruction,
-    Keypair,
     Transaction,
-    VersionedTransaction,
-    TransactionMessage,
     ComputeBudgetProgram,
 } from '@solana/web3.js';
 import BN from 'bn.js';
-import { PROGRAM_ID, PoolInstruction, COMPUTE_UNITS } from '../constants';
+import { PROGRAM_ID, COMPUTE_UNITS } from '../constants';
 import { deriveSystemStatePDA, deriveMainTreasuryPDA } from '../utils';
 import { TreasuryInfo } from '../types';
+import { getProtocolState, toTreasuryInfo } from '../accounts/protocol';
+import { encodeInstructionData, resolveSchemaGeneration } from '../registry';
+import { simulateQuery } from './query';
 
 /**
  * Public read-only functions that don't require special authority
@@ -25,42 +25,34 @@ import { TreasuryInfo } from '../types';
  */
 export async function getContractVersion(connection: Connection): Promise<string> {
     try {
-        // Create instruction
-        const instruction = new TransactionInstruction({
-            keys: [], // No accounts needed for version check
-            programId: PROGRAM_ID,
-            data: Buffer.from([PoolInstruction.GetVersion]),
+        // Version logs are emitted even if the throwaway payer makes the simulation fail
+        return await simulateQuery(connection, createGetVersionInstruction(), extractVersionFromLogs, {
+            allowFailure: true,
         });
-
-        // Create a v0 message and versioned transaction for simulation
-        const payer = Keypair.generate();
-        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-        const message = new TransactionMessage({
-            payerKey: payer.publicKey,
-            recentBlockhash: blockhash,
-            instructions: [instruction],
-        }).compileToV0Message();
-
-        const vtx = new VersionedTransaction(message);
-        vtx.sign([payer]);
-
-        // Simulate the versioned transaction to get logs
-        const simulation = await connection.simulateTransaction(vtx);
-
-        if (simulation.value.err) {
-            // Even with AccountNotFound, we can extract version from logs
-            const logs = simulation.value.logs || [];
-            return extractVersionFromLogs(logs);
-        }
-
-        const logs = simulation.value.logs || [];
-        return extractVersionFromLogs(logs);
-        
     } catch (error: any) {
         throw new Error(`Failed to get contract version: ${error.message}`);
     }
 }
 
+/**
+ * Detect the deployed contract version
+ * GetVersion keeps the same discriminator in every registered generation,
+ * so detection works before the version is known
+ * Pass the result to setContractVersion (or FixedRatioTradingClient.setContractVersion) to target it
+ * @param connection - Solana connection
+ * @returns Promise<string> - Detected contract version (e.g. "0.15.1053")
+ */
+export async function detectContractVersion(connection: Connection): Promise<string> {
+    const versionInfo = await getContractVersion(connection);
+    const match = versionInfo.match(/Version:\s*v?(\d+\.\d+(?:\.\d+)?)/);
+    if (!match) {
+        throw new Error(`Failed to detect contract version: ${versionInfo}`);
+    }
+
+    resolveSchemaGeneration(match[1]); // Reject versions without a registered schema
+    return match[1];
+}
+
 /**
  * Extract version information from program logs
  * @param logs - Array of log strings
@@ -101,47 +93,35 @@ function extractVersionFromLogs(logs: string[]): string {
 
 /**
  * Get treasury information
- * This function retrieves current treasury state including balance and statistics
+ * Reads the MainTreasuryState account directly; falls back to simulating
+ * GetTreasuryInfo and parsing its logs if the account cannot be read
  * @param connection - Solana connection
+ * @param version - Contract version for the fallback simulation (defaults to the active version)
  * @returns Promise<TreasuryInfo> - Treasury information
  */
-export async function getTreasuryInfo(connection: Connection): Promise<TreasuryInfo> {
+export async function getTreasuryInfo(connection: Connection, version?: string): Promise<TreasuryInfo> {
     try {
-        // Derive PDAs
-        const [systemStatePDA] = deriveSystemStatePDA();
-        const [mainTreasuryPDA] = deriveMainTreasuryPDA();
-
-        // Create instruction
-        const instruction = new TransactionInstruction({
-            keys: [
-                { pubkey: systemStatePDA, isSigner: false, isWritable: false },
-                { pubkey: mainTreasuryPDA, isSigner: false, isWritable: false },
-            ],
-            programId: PROGRAM_ID,
-            data: Buffer.from([PoolInstruction.GetTreasuryInfo]),
-        });
-
-        // Create versioned transaction for simulation
-        const payer = Keypair.generate();
-        const { blockhash } = await connection.getLatestBlockhash();
-        const message = new TransactionMessage({
-            payerKey: payer.publicKey,
-            recentBlockhash: blockhash,
-            instructions: [instruction],
-        }).compileToV0Message();
-        const vtx = new VersionedTransaction(message);
-        vtx.sign([payer]);
-
-        // Simulate to get logs
-        const simulation = await connection.simulateTransaction(vtx);
-
-        if (simulation.value.err) {
-            throw new Error(`Treasury info simulation failed: ${JSON.stringify(simulation.value.err)}`);
+        const { mainTreasuryState } = await getProtocolState(connection);
+        if (mainTreasuryState) {
+            return toTreasuryInfo(mainTreasuryState);
         }
+    } catch (error) {
+        // Fall through to the log-based simulation path
+    }
 
-        const logs = simulation.value.logs || [];
-        return parseTreasuryInfoFromLogs(logs);
+    return getTreasuryInfoFromSimulation(connection, version);
+}
 
+/**
+ * Get treasury information by simulating GetTreasuryInfo and parsing program logs
+ * @param connection - Solana connection
+ * @param version - Contract version (defaults to the active version)
+ * @returns Promise<TreasuryInfo> - Treasury information
+ */
+async function getTreasuryInfoFromSimulation(connection: Connection, version?: string): Promise<TreasuryInfo> {
+    try {
+        const instruction = createGetTreasuryInfoInstruction(version);
+        return await simulateQuery(connection, instruction, parseTreasuryInfoFromLogs);
     } catch (error: any) {
         throw new Error(`Failed to get treasury info: ${error.message}`);
     }
@@ -196,9 +176,10 @@ function parseTreasuryInfoFromLogs(logs: string[]): TreasuryInfo {
 
 /**
  * Create a get treasury info instruction for manual transaction building
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
-export function createGetTreasuryInfoInstruction(): TransactionInstruction {
+export function createGetTreasuryInfoInstruction(version?: string): TransactionInstruction {
     const [systemStatePDA] = deriveSystemStatePDA();
     const [mainTreasuryPDA] = deriveMainTreasuryPDA();
 
@@ -208,7 +189,7 @@ export function createGetTreasuryInfoInstruction(): TransactionInstruction {
             { pubkey: mainTreasuryPDA, isSigner: false, isWritable: false },
         ],
         programId: PROGRAM_ID,
-        data: Buffer.from([PoolInstruction.GetTreasuryInfo]),
+        data: encodeInstructionData('GetTreasuryInfo', {}, version),
     });
 }
 
@@ -220,6 +201,6 @@ export function createGetVersionInstruction(): TransactionInstruction {
     return new TransactionInstruction({
         keys: [], // No accounts needed
         programId: PROGRAM_ID,
-        data: Buffer.from([PoolInstruction.GetVersion]),
+        data: encodeInstructionData('GetVersion'),
     });
 }
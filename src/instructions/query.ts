@@ -0,0 +1,483 @@
+import {
+    Connection,
+    PublicKey,
+    TransactionInstruction,
+    Keypair,
+    VersionedTransaction,
+    TransactionMessage,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import { PROGRAM_ID } from '../constants';
+import { deriveSystemStatePDA, deriveMainTreasuryPDA } from '../utils';
+import {
+    ConsolidationStatusQueryResult,
+    FeeInfoQueryResult,
+    LiquidityInfoQueryResult,
+    PoolInfoQueryResult,
+    PoolPauseStatusQueryResult,
+    PoolSolBalanceQueryResult,
+    PoolStatePDAQueryResult,
+    QueryOptions,
+    TokenVaultPDAsQueryResult,
+} from '../types';
+import { encodeInstructionData } from '../registry';
+import { validateConsolidationParams } from './treasury';
+import { FrtQueryParseError, fromSimulationResult } from '../errors';
+
+/**
+ * Read-only query instructions
+ * These are free to call: results are read from the logs of a simulated transaction
+ * Query instructions exist from contract version 0.15; the 0.14 generation has none, so builders throw for it
+ */
+
+// Replaced by the node at simulation time
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+/**
+ * Simulate a read-only instruction and parse its program logs
+ * Without a payer, a throwaway keypair signs the simulation
+ * @param connection - Solana connection
+ * @param instruction - Query instruction
+ * @param parse - Converts program logs into a typed result
+ * @param options - Query options
+ * @returns Promise<T> - Parsed result (throws FrtError if the simulation fails)
+ */
+export async function simulateQuery<T>(
+    connection: Connection,
+    instruction: TransactionInstruction,
+    parse: (logs: string[]) => T,
+    options: QueryOptions = {}
+): Promise<T> {
+    const signer = options.payer ? null : Keypair.generate();
+    const payerKey = options.payer || signer!.publicKey;
+
+    // The node substitutes a current blockhash, so queries need no getLatestBlockhash round trip
+    const message = new TransactionMessage({
+        payerKey,
+        recentBlockhash: PLACEHOLDER_BLOCKHASH,
+        instructions: [instruction],
+    }).compileToV0Message();
+
+    const vtx = new VersionedTransaction(message);
+    if (signer) {
+        vtx.sign([signer]);
+    }
+
+    const simulation = await connection.simulateTransaction(vtx, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: options.commitment,
+    });
+
+    const failure = fromSimulationResult(simulation.value);
+    if (failure && !options.allowFailure) {
+        throw failure;
+    }
+
+    return parse(simulation.value.logs || []);
+}
+
+/**
+ * Collect "Label: value" pairs from program logs
+ * Labels are matched case-insensitively; later entries win
+ * @param logs - Array of log strings
+ * @returns Map of lower-cased label to raw value
+ */
+export function parseLogFields(logs: string[]): Map<string, string> {
+    const fields = new Map<string, string>();
+
+    for (const log of logs) {
+        const line = log.replace(/^Program log:\s*/, '');
+        const separator = line.indexOf(':');
+        if (separator <= 0) {
+            continue;
+        }
+        const label = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+        if (label && value) {
+            fields.set(label, value);
+        }
+    }
+
+    return fields;
+}
+
+/**
+ * Create a GetPoolInfo query instruction
+ * @param poolStatePDA - Pool state PDA
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createGetPoolInfoInstruction(poolStatePDA: PublicKey, version?: string): TransactionInstruction {
+    return createPoolQueryInstruction(poolStatePDA, encodeInstructionData('GetPoolInfo', {}, version));
+}
+
+/**
+ * Create a GetPoolPauseStatus query instruction
+ * @param poolStatePDA - Pool state PDA
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createGetPoolPauseStatusInstruction(poolStatePDA: PublicKey, version?: string): TransactionInstruction {
+    return createPoolQueryInstruction(poolStatePDA, encodeInstructionData('GetPoolPauseStatus', {}, version));
+}
+
+/**
+ * Create a GetLiquidityInfo query instruction
+ * @param poolStatePDA - Pool state PDA
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createGetLiquidityInfoInstruction(poolStatePDA: PublicKey, version?: string): TransactionInstruction {
+    return createPoolQueryInstruction(poolStatePDA, encodeInstructionData('GetLiquidityInfo', {}, version));
+}
+
+/**
+ * Create a GetFeeInfo query instruction
+ * @param poolStatePDA - Pool state PDA
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createGetFeeInfoInstruction(poolStatePDA: PublicKey, version?: string): TransactionInstruction {
+    return createPoolQueryInstruction(poolStatePDA, encodeInstructionData('GetFeeInfo', {}, version));
+}
+
+/**
+ * Create a GetPoolSolBalance query instruction
+ * @param poolStatePDA - Pool state PDA
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createGetPoolSolBalanceInstruction(poolStatePDA: PublicKey, version?: string): TransactionInstruction {
+    return createPoolQueryInstruction(poolStatePDA, encodeInstructionData('GetPoolSolBalance', {}, version));
+}
+
+/**
+ * Create a GetConsolidationStatus query instruction
+ * @param poolStatePDAs - Pool state PDAs to check (1-20, no duplicates)
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createGetConsolidationStatusInstruction(
+    poolStatePDAs: PublicKey[],
+    version?: string
+): TransactionInstruction {
+    const [systemStatePDA] = deriveSystemStatePDA();
+    const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+
+    // Same batch limits as ConsolidatePoolFees
+    const validation = validateConsolidationParams(poolStatePDAs);
+    if (!validation.isValid) {
+        throw new Error(`Invalid consolidation status query: ${validation.errors.join(', ')}`);
+    }
+
+    return new TransactionInstruction({
+        keys: [
+            { pubkey: systemStatePDA, isSigner: false, isWritable: false },
+            { pubkey: mainTreasuryPDA, isSigner: false, isWritable: false },
+            ...poolStatePDAs.map(poolPDA => ({
+                pubkey: poolPDA,
+                isSigner: false,
+                isWritable: false,
+            })),
+        ],
+        programId: PROGRAM_ID,
+        data: encodeInstructionData('GetConsolidationStatus', { poolCount: poolStatePDAs.length }, version),
+    });
+}
+
+/**
+ * Create a GetPoolStatePDA query instruction
+ * @param primaryTokenMint - Mint the ratio is expressed in
+ * @param ratio - Pool ratio (basis points)
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createGetPoolStatePDAInstruction(
+    primaryTokenMint: PublicKey,
+    ratio: BN,
+    version?: string
+): TransactionInstruction {
+    return new TransactionInstruction({
+        keys: [], // Pure address derivation
+        programId: PROGRAM_ID,
+        data: encodeInstructionData('GetPoolStatePDA', { primaryTokenMint, ratio }, version),
+    });
+}
+
+/**
+ * Create a GetTokenVaultPDAs query instruction
+ * @param poolStatePDA - Pool state PDA
+ * @param version - Contract version (defaults to the active version)
+ * @returns TransactionInstruction
+ */
+export function createGetTokenVaultPDAsInstruction(
+    poolStatePDA: PublicKey,
+    version?: string
+): TransactionInstruction {
+    return new TransactionInstruction({
+        keys: [], // Pure address derivation
+        programId: PROGRAM_ID,
+        data: encodeInstructionData('GetTokenVaultPDAs', { poolStatePDA }, version),
+    });
+}
+
+/**
+ * Query pool information via simulation
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @param options - Query options
+ * @returns Promise<PoolInfoQueryResult>
+ */
+export async function queryPoolInfo(
+    connection: Connection,
+    poolStatePDA: PublicKey,
+    options?: QueryOptions
+): Promise<PoolInfoQueryResult> {
+    const instruction = createGetPoolInfoInstruction(poolStatePDA, options?.contractVersion);
+    return simulateQuery(connection, instruction, logs => {
+        const fields = parseLogFields(logs);
+        return {
+            owner: readPubkey(fields, 'owner', 'pool owner'),
+            tokenAMint: readPubkey(fields, 'token a mint', 'token a'),
+            tokenBMint: readPubkey(fields, 'token b mint', 'token b'),
+            ratioA: readAmount(fields, 'ratio a numerator', 'ratio a'),
+            ratioB: readAmount(fields, 'ratio b denominator', 'ratio b'),
+            logs,
+        };
+    }, options);
+}
+
+/**
+ * Query pool pause status via simulation
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @param options - Query options
+ * @returns Promise<PoolPauseStatusQueryResult>
+ */
+export async function queryPoolPauseStatus(
+    connection: Connection,
+    poolStatePDA: PublicKey,
+    options?: QueryOptions
+): Promise<PoolPauseStatusQueryResult> {
+    const instruction = createGetPoolPauseStatusInstruction(poolStatePDA, options?.contractVersion);
+    return simulateQuery(connection, instruction, logs => {
+        const fields = parseLogFields(logs);
+        return {
+            liquidityPaused: readBoolean(fields, 'liquidity paused', 'liquidity operations paused'),
+            swapsPaused: readBoolean(fields, 'swaps paused', 'swap operations paused'),
+            logs,
+        };
+    }, options);
+}
+
+/**
+ * Query pool liquidity via simulation
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @param options - Query options
+ * @returns Promise<LiquidityInfoQueryResult>
+ */
+export async function queryLiquidityInfo(
+    connection: Connection,
+    poolStatePDA: PublicKey,
+    options?: QueryOptions
+): Promise<LiquidityInfoQueryResult> {
+    const instruction = createGetLiquidityInfoInstruction(poolStatePDA, options?.contractVersion);
+    return simulateQuery(connection, instruction, logs => {
+        const fields = parseLogFields(logs);
+        return {
+            tokenALiquidity: readAmount(fields, 'token a liquidity', 'total token a liquidity'),
+            tokenBLiquidity: readAmount(fields, 'token b liquidity', 'total token b liquidity'),
+            logs,
+        };
+    }, options);
+}
+
+/**
+ * Query pool fees via simulation
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @param options - Query options
+ * @returns Promise<FeeInfoQueryResult>
+ */
+export async function queryFeeInfo(
+    connection: Connection,
+    poolStatePDA: PublicKey,
+    options?: QueryOptions
+): Promise<FeeInfoQueryResult> {
+    const instruction = createGetFeeInfoInstruction(poolStatePDA, options?.contractVersion);
+    return simulateQuery(connection, instruction, logs => {
+        const fields = parseLogFields(logs);
+        return {
+            liquidityFee: readAmount(fields, 'liquidity fee', 'contract liquidity fee'),
+            swapFee: readAmount(fields, 'swap fee', 'swap contract fee'),
+            totalSolFeesCollected: readAmount(fields, 'total sol fees collected', 'total sol fees'),
+            pendingSolFees: readAmount(fields, 'pending sol fees', 'unconsolidated fees'),
+            logs,
+        };
+    }, options);
+}
+
+/**
+ * Query a pool's SOL balance via simulation
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @param options - Query options
+ * @returns Promise<PoolSolBalanceQueryResult>
+ */
+export async function queryPoolSolBalance(
+    connection: Connection,
+    poolStatePDA: PublicKey,
+    options?: QueryOptions
+): Promise<PoolSolBalanceQueryResult> {
+    const instruction = createGetPoolSolBalanceInstruction(poolStatePDA, options?.contractVersion);
+    return simulateQuery(connection, instruction, logs => {
+        const fields = parseLogFields(logs);
+        return {
+            solBalance: readAmount(fields, 'sol balance', 'pool sol balance', 'balance'),
+            logs,
+        };
+    }, options);
+}
+
+/**
+ * Query consolidation status for a batch of pools via simulation
+ * @param connection - Solana connection
+ * @param poolStatePDAs - Pool state PDAs to check (1-20, no duplicates)
+ * @param options - Query options
+ * @returns Promise<ConsolidationStatusQueryResult>
+ */
+export async function queryConsolidationStatus(
+    connection: Connection,
+    poolStatePDAs: PublicKey[],
+    options?: QueryOptions
+): Promise<ConsolidationStatusQueryResult> {
+    const instruction = createGetConsolidationStatusInstruction(poolStatePDAs, options?.contractVersion);
+    return simulateQuery(connection, instruction, logs => {
+        const fields = parseLogFields(logs);
+        return {
+            eligiblePools: readAmount(fields, 'eligible pools', 'pools eligible').toNumber(),
+            totalPendingFees: readAmount(fields, 'total pending fees', 'total consolidatable fees'),
+            logs,
+        };
+    }, options);
+}
+
+/**
+ * Query a pool state PDA via simulation
+ * @param connection - Solana connection
+ * @param primaryTokenMint - Mint the ratio is expressed in
+ * @param ratio - Pool ratio (basis points)
+ * @param options - Query options
+ * @returns Promise<PoolStatePDAQueryResult>
+ */
+export async function queryPoolStatePDA(
+    connection: Connection,
+    primaryTokenMint: PublicKey,
+    ratio: BN,
+    options?: QueryOptions
+): Promise<PoolStatePDAQueryResult> {
+    const instruction = createGetPoolStatePDAInstruction(primaryTokenMint, ratio, options?.contractVersion);
+    return simulateQuery(connection, instruction, logs => {
+        const fields = parseLogFields(logs);
+        return {
+            poolStatePDA: readPubkey(fields, 'pool state pda', 'pool pda'),
+            logs,
+        };
+    }, options);
+}
+
+/**
+ * Query a pool's token vault PDAs via simulation
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @param options - Query options
+ * @returns Promise<TokenVaultPDAsQueryResult>
+ */
+export async function queryTokenVaultPDAs(
+    connection: Connection,
+    poolStatePDA: PublicKey,
+    options?: QueryOptions
+): Promise<TokenVaultPDAsQueryResult> {
+    const instruction = createGetTokenVaultPDAsInstruction(poolStatePDA, options?.contractVersion);
+    return simulateQuery(connection, instruction, logs => {
+        const fields = parseLogFields(logs);
+        return {
+            tokenAVault: readPubkey(fields, 'token a vault', 'token a vault pda'),
+            tokenBVault: readPubkey(fields, 'token b vault', 'token b vault pda'),
+            logs,
+        };
+    }, options);
+}
+
+// Pool queries read the pool state account only
+function createPoolQueryInstruction(poolStatePDA: PublicKey, data: Buffer): TransactionInstruction {
+    return new TransactionInstruction({
+        keys: [
+            { pubkey: poolStatePDA, isSigner: false, isWritable: false },
+        ],
+        programId: PROGRAM_ID,
+        data,
+    });
+}
+
+function readField(fields: Map<string, string>, labels: string[]): string | undefined {
+    for (const label of labels) {
+        const value = fields.get(label);
+        if (value !== undefined) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+function readAmount(fields: Map<string, string>, ...labels: string[]): BN {
+    const value = requireField(fields, labels);
+    const match = value.match(/^\d+/);
+    if (!match) {
+        throw createParseError(labels, `expected an integer, got "${value}"`);
+    }
+    return new BN(match[0]);
+}
+
+function readBoolean(fields: Map<string, string>, ...labels: string[]): boolean {
+    const value = requireField(fields, labels);
+    if (/^(true|yes|1)\b/i.test(value)) {
+        return true;
+    }
+    if (/^(false|no|0)\b/i.test(value)) {
+        return false;
+    }
+    throw createParseError(labels, `expected a boolean, got "${value}"`);
+}
+
+function readPubkey(fields: Map<string, string>, ...labels: string[]): PublicKey {
+    const value = requireField(fields, labels);
+    const match = value.match(/^[1-9A-HJ-NP-Za-km-z]{32,44}/);
+    try {
+        if (match) {
+            return new PublicKey(match[0]);
+        }
+    } catch (error) {
+        // Reported below
+    }
+    throw createParseError(labels, `expected a public key, got "${value}"`);
+}
+
+function requireField(fields: Map<string, string>, labels: string[]): string {
+    const value = readField(fields, labels);
+    if (value === undefined) {
+        throw createParseError(labels, 'not found in the program logs');
+    }
+    return value;
+}
+
+function createParseError(labels: string[], problem: string): FrtQueryParseError {
+    return new FrtQueryParseError({
+        code: null,
+        errorName: 'QueryParseError',
+        message: `Query field "${labels[0]}" ${problem}`,
+        hint: "Check that the contract version supports this query and emits the field",
+    });
+}
@@ -5,14 +5,28 @@ import {
 } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import BN from 'bn.js';
-import { PROGRAM_ID, PoolInstruction } from '../constants';
+import { PROGRAM_ID } from '../constants';
 import {
     deriveSystemStatePDA,
     deriveMainTreasuryPDA,
+    derivePoolSideAccounts,
     calculateSwapOutput,
     applySlippage,
+    toBasisPoints,
+    fromBasisPoints,
 } from '../utils';
-import { SwapParams, SwapResult } from '../types';
+import {
+    DecimalInput,
+    PoolSnapshot,
+    SwapParams,
+    SwapQuote,
+    SwapResult,
+    SwapTransferFees,
+} from '../types';
+import { getPoolState } from '../accounts/pool';
+import { encodeInstructionData } from '../registry';
+import { getDisplayDecimals } from '../wsol';
+import { calculateTransferFee } from '../token';
 
 /**
  * Swap operations for users (unless pool is in owner-only mode)
@@ -23,34 +37,41 @@ import { SwapParams, SwapResult } from '../types';
  * Authority: Any user (unless owner-only mode is enabled for the pool)
  * Fee: 0.00002715 SOL swap fee
  * @param params - Swap parameters
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
-export function createSwapInstruction(params: SwapParams): TransactionInstruction {
+export function createSwapInstruction(params: SwapParams, version?: string): TransactionInstruction {
     const {
         poolStatePDA,
         amountIn,
         expectedAmountOut,
         inputTokenMint,
+        outputTokenMint,
         userAuthority,
         userInputAccount,
         userOutputAccount,
     } = params;
+    const tokenProgram = params.tokenProgram || TOKEN_PROGRAM_ID;
 
     // Derive required PDAs
     const [systemStatePDA] = deriveSystemStatePDA();
     const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+    const { tokenVault: inputVault, otherTokenVault: outputVault } = derivePoolSideAccounts(
+        poolStatePDA,
+        inputTokenMint,
+        outputTokenMint
+    );
 
     // Apply slippage tolerance if provided
     const slippageTolerance = params.slippageTolerance || 1; // Default 1%
     const minAmountOut = applySlippage(expectedAmountOut, slippageTolerance);
 
     // Serialize instruction data
-    const instructionData = Buffer.concat([
-        Buffer.from([PoolInstruction.Swap]),
-        inputTokenMint.toBuffer(),
-        amountIn.toArrayLike(Buffer, 'le', 8),
-        minAmountOut.toArrayLike(Buffer, 'le', 8) // Use min amount out for slippage protection
-    ]);
+    const instructionData = encodeInstructionData('Swap', {
+        inputTokenMint,
+        amountIn,
+        expectedAmountOut: minAmountOut, // Use min amount out for slippage protection
+    }, version);
 
     return new TransactionInstruction({
         keys: [
@@ -59,8 +80,9 @@ export function createSwapInstruction(params: SwapParams): TransactionInstructio
             { pubkey: poolStatePDA, isSigner: false, isWritable: true },
             { pubkey: userInputAccount, isSigner: false, isWritable: true },
             { pubkey: userOutputAccount, isSigner: false, isWritable: true },
-            // Pool token vaults are derived by the program based on input/output tokens
-            { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+            { pubkey: inputVault, isSigner: false, isWritable: true },
+            { pubkey: outputVault, isSigner: false, isWritable: true },
+            { pubkey: tokenProgram, isSigner: false, isWritable: false },
             { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
             { pubkey: mainTreasuryPDA, isSigner: false, isWritable: true },
             { pubkey: inputTokenMint, isSigner: false, isWritable: false },
@@ -77,24 +99,103 @@ export function createSwapInstruction(params: SwapParams): TransactionInstructio
  * @param poolRatioA - Pool ratio for token A
  * @param poolRatioB - Pool ratio for token B
  * @param tokenAMint - Token A mint
- * @returns Expected output amount (before fees)
+ * @param transferFees - Token-2022 transfer fees of the input and output mints
+ * @returns Expected output amount received by the user (before SOL fees)
  */
 export function calculateExpectedSwapOutput(
     amountIn: BN,
     inputTokenMint: PublicKey,
     poolRatioA: BN,
     poolRatioB: BN,
-    tokenAMint: PublicKey
+    tokenAMint: PublicKey,
+    transferFees: SwapTransferFees = {}
 ): BN {
     const isInputTokenA = inputTokenMint.equals(tokenAMint);
-    
+
+    // The vault only receives the input net of its transfer fee
+    const amountReceived = amountIn.sub(calculateTransferFee(amountIn, transferFees.input));
+
+    let amountOut: BN;
     if (isInputTokenA) {
         // Swapping A for B
-        return calculateSwapOutput(amountIn, poolRatioA, poolRatioB);
+        amountOut = calculateSwapOutput(amountReceived, poolRatioA, poolRatioB);
     } else {
         // Swapping B for A
-        return calculateSwapOutput(amountIn, poolRatioB, poolRatioA);
+        amountOut = calculateSwapOutput(amountReceived, poolRatioB, poolRatioA);
     }
+
+    return amountOut.sub(calculateTransferFee(amountOut, transferFees.output));
+}
+
+/**
+ * Quote a swap against a fetched pool and validate it against the pool's state
+ * Checks pause flags, owner-only mode, the pool's swap limits and output vault liquidity
+ * @param pool - Pool snapshot (see PoolStore)
+ * @param inputTokenMint - Input token mint
+ * @param amountIn - Input amount in basis points
+ * @param transferFees - Token-2022 transfer fees of the input and output mints (see getSwapTransferFees)
+ * @returns Swap quote with validation result (amountOut is net of transfer fees)
+ */
+export function quoteSwap(
+    pool: PoolSnapshot,
+    inputTokenMint: PublicKey,
+    amountIn: BN,
+    transferFees: SwapTransferFees = {}
+): SwapQuote {
+    const { poolState } = pool;
+    const errors: string[] = [];
+
+    const isInputTokenA = inputTokenMint.equals(poolState.tokenAMint);
+    if (!isInputTokenA && !inputTokenMint.equals(poolState.tokenBMint)) {
+        throw new Error("Input token mint is not part of this pool");
+    }
+
+    const outputTokenMint = isInputTokenA ? poolState.tokenBMint : poolState.tokenAMint;
+    const outputVault = isInputTokenA ? pool.tokenBVault : pool.tokenAVault;
+    const availableOutput = outputVault ? new BN(outputVault.amount.toString()) : new BN(0);
+
+    const inputTransferFee = calculateTransferFee(amountIn, transferFees.input);
+    const grossAmountOut = calculateExpectedSwapOutput(
+        amountIn,
+        inputTokenMint,
+        poolState.ratioANumerator,
+        poolState.ratioBDenominator,
+        poolState.tokenAMint,
+        { input: transferFees.input }
+    );
+    const outputTransferFee = calculateTransferFee(grossAmountOut, transferFees.output);
+    const amountOut = grossAmountOut.sub(outputTransferFee);
+
+    if (poolState.swapsPaused) {
+        errors.push("Pool swaps are paused");
+    }
+    if (poolState.swapForOwnersOnly) {
+        errors.push("Pool swaps are restricted to the pool owner");
+    }
+    if (amountIn.lt(poolState.minSwapAmount)) {
+        errors.push("Swap amount below pool minimum");
+    }
+    if (!poolState.maxSwapAmount.isZero() && amountIn.gt(poolState.maxSwapAmount)) {
+        errors.push("Swap amount above pool maximum");
+    }
+    if (amountOut.isZero()) {
+        errors.push("Swap amount too small to produce output");
+    }
+    if (grossAmountOut.gt(availableOutput)) {
+        errors.push("Insufficient pool liquidity for output");
+    }
+
+    return {
+        amountIn,
+        amountOut,
+        inputTokenMint,
+        outputTokenMint,
+        availableOutput,
+        inputTransferFee,
+        outputTransferFee,
+        isValid: errors.length === 0,
+        errors,
+    };
 }
 
 /**
@@ -175,6 +276,10 @@ export function validateSwapParams(params: SwapParams): {
         errors.push("Expected output amount must be positive");
     }
 
+    if (params.inputTokenMint.equals(params.outputTokenMint)) {
+        errors.push("Input and output tokens must differ");
+    }
+
     if (params.slippageTolerance !== undefined) {
         if (params.slippageTolerance < 0 || params.slippageTolerance > 50) {
             errors.push("Slippage tolerance must be between 0 and 50 percent");
@@ -203,43 +308,52 @@ export function getSwapFee(): BN {
 
 /**
  * Helper to create swap instruction with display amounts
+ * Wrapped SOL sides take SOL amounts (9 decimals); see createWrapSolInstructions for funding
  * @param poolStatePDA - Pool state PDA
  * @param amountInDisplay - Input amount in display units
  * @param expectedAmountOutDisplay - Expected output in display units
  * @param inputTokenDecimals - Decimals for input token
  * @param outputTokenDecimals - Decimals for output token
  * @param inputTokenMint - Input token mint
+ * @param outputTokenMint - Output token mint
  * @param userAuthority - User authority
  * @param userInputAccount - User's input token account
  * @param userOutputAccount - User's output token account
  * @param slippageTolerance - Slippage tolerance percentage
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
 export function createSwapInstructionWithDisplayAmounts(
     poolStatePDA: PublicKey,
-    amountInDisplay: number,
-    expectedAmountOutDisplay: number,
+    amountInDisplay: DecimalInput,
+    expectedAmountOutDisplay: DecimalInput,
     inputTokenDecimals: number,
     outputTokenDecimals: number,
     inputTokenMint: PublicKey,
+    outputTokenMint: PublicKey,
     userAuthority: PublicKey,
     userInputAccount: PublicKey,
     userOutputAccount: PublicKey,
-    slippageTolerance: number = 1
+    slippageTolerance: number = 1,
+    version?: string
 ): TransactionInstruction {
-    const amountIn = new BN(amountInDisplay * Math.pow(10, inputTokenDecimals));
-    const expectedAmountOut = new BN(expectedAmountOutDisplay * Math.pow(10, outputTokenDecimals));
+    const amountIn = toBasisPoints(amountInDisplay, getDisplayDecimals(inputTokenMint, inputTokenDecimals));
+    const expectedAmountOut = toBasisPoints(
+        expectedAmountOutDisplay,
+        getDisplayDecimals(outputTokenMint, outputTokenDecimals)
+    );
 
     return createSwapInstruction({
         poolStatePDA,
         amountIn,
         expectedAmountOut,
         inputTokenMint,
+        outputTokenMint,
         userAuthority,
         userInputAccount,
         userOutputAccount,
         slippageTolerance,
-    });
+    }, version);
 }
 
 /**
@@ -253,14 +367,14 @@ export function createSwapInstructionWithDisplayAmounts(
  * @returns Output amount in display units
  */
 export function estimateSwapOutputDisplay(
-    amountInDisplay: number,
+    amountInDisplay: DecimalInput,
     inputTokenDecimals: number,
     outputTokenDecimals: number,
     poolRatioA: BN,
     poolRatioB: BN,
     isInputTokenA: boolean
 ): number {
-    const amountIn = new BN(amountInDisplay * Math.pow(10, inputTokenDecimals));
+    const amountIn = toBasisPoints(amountInDisplay, inputTokenDecimals);
     
     let amountOut: BN;
     if (isInputTokenA) {
@@ -269,12 +383,11 @@ export function estimateSwapOutputDisplay(
         amountOut = calculateSwapOutput(amountIn, poolRatioB, poolRatioA);
     }
 
-    return amountOut.toNumber() / Math.pow(10, outputTokenDecimals);
+    return fromBasisPoints(amountOut, outputTokenDecimals);
 }
 
 /**
  * Check if a pool allows public swaps or is in owner-only mode
- * Note: This would require reading the pool state account
  * @param connection - Solana connection
  * @param poolStatePDA - Pool state PDA
  * @returns Promise<boolean> - True if public swaps are allowed
@@ -284,16 +397,12 @@ export async function isPoolPublicSwapEnabled(
     poolStatePDA: PublicKey
 ): Promise<boolean> {
     try {
-        const accountInfo = await connection.getAccountInfo(poolStatePDA);
-        if (!accountInfo || !accountInfo.data) {
+        const poolState = await getPoolState(connection, poolStatePDA);
+        if (!poolState) {
             throw new Error("Pool not found");
         }
 
-        // Parse pool state to check if owner-only mode is enabled
-        // This would require knowledge of the pool state structure
-        // For now, return true (assuming public swaps are enabled)
-        // In a real implementation, you'd parse the account data
-        return true;
+        return !poolState.swapForOwnersOnly;
     } catch (error) {
         throw new Error(`Failed to check pool swap mode: ${error}`);
     }
@@ -4,9 +4,12 @@ import {
     SystemProgram,
 } from '@solana/web3.js';
 import BN from 'bn.js';
-import { PROGRAM_ID, PoolInstruction, FEES } from '../constants';
-import { deriveSystemStatePDA, deriveMainTreasuryPDA, encodeMessage } from '../utils';
-import { DonationParams } from '../types';
+import { PROGRAM_ID, FEES, CONSOLIDATION } from '../constants';
+import { deriveSystemStatePDA, deriveMainTreasuryPDA, toBasisPoints, fromBasisPoints } from '../utils';
+import { formatDecimalAmount } from '../decimal';
+import { SOL_DECIMALS } from '../wsol';
+import { DecimalInput, DonationParams } from '../types';
+import { encodeInstructionData } from '../registry';
 
 /**
  * Treasury operations available to all users
@@ -17,24 +20,18 @@ import { DonationParams } from '../types';
  * Authority: Any user
  * Minimum: 0.1 SOL
  * @param params - Donation parameters
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
-export function createDonateSolInstruction(params: DonationParams): TransactionInstruction {
+export function createDonateSolInstruction(params: DonationParams, version?: string): TransactionInstruction {
     const { donor, amount, message = "" } = params;
 
     // Derive required PDAs
     const [systemStatePDA] = deriveSystemStatePDA();
     const [mainTreasuryPDA] = deriveMainTreasuryPDA();
 
-    // Encode message with length prefix
-    const messageBuffer = encodeMessage(message, 200);
-
-    // Serialize instruction data
-    const instructionData = Buffer.concat([
-        Buffer.from([PoolInstruction.DonateSol]),
-        amount.toArrayLike(Buffer, 'le', 8),
-        messageBuffer
-    ]);
+    // Serialize instruction data (message is length-prefixed)
+    const instructionData = encodeInstructionData('DonateSol', { amount, message }, version);
 
     return new TransactionInstruction({
         keys: [
@@ -52,35 +49,35 @@ export function createDonateSolInstruction(params: DonationParams): TransactionI
  * Create an instruction to consolidate pool fees
  * Authority: Public (anyone can trigger fee consolidation)
  * Note: This helps collect fees from pools into the main treasury
- * @param poolStatePDAs - Array of pool state PDAs to consolidate fees from
+ * Use planConsolidation() to check eligibility and split larger sets into batches
+ * @param poolStatePDAs - Array of pool state PDAs to consolidate fees from (1-20, no duplicates)
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
 export function createConsolidatePoolFeesInstruction(
-    poolStatePDAs: PublicKey[]
+    poolStatePDAs: PublicKey[],
+    version?: string
 ): TransactionInstruction {
     // Derive required PDAs
     const [systemStatePDA] = deriveSystemStatePDA();
     const [mainTreasuryPDA] = deriveMainTreasuryPDA();
 
-    // Limit to maximum 20 pools per transaction to avoid account limit
-    const limitedPools = poolStatePDAs.slice(0, 20);
+    const validation = validateConsolidationParams(poolStatePDAs);
+    if (!validation.isValid) {
+        throw new Error(`Invalid consolidation: ${validation.errors.join(', ')}`);
+    }
 
-    // Serialize instruction data
-    const poolCountBuffer = Buffer.alloc(4);
-    poolCountBuffer.writeUInt32LE(limitedPools.length, 0);
-    
-    const instructionData = Buffer.concat([
-        Buffer.from([PoolInstruction.ConsolidatePoolFees]),
-        poolCountBuffer
-    ]);
+    // Serialize instruction data (pool count width depends on the contract version)
+    const instructionData = encodeInstructionData('ConsolidatePoolFees', {
+        poolCount: poolStatePDAs.length,
+    }, version);
 
-    // Build accounts array
+    // Build accounts array (API account structure: 0 system state, 1 main treasury, 2+ pools)
     const accounts = [
         { pubkey: systemStatePDA, isSigner: false, isWritable: false },
         { pubkey: mainTreasuryPDA, isSigner: false, isWritable: true },
-        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
         // Add pool state PDAs
-        ...limitedPools.map(poolPDA => ({
+        ...poolStatePDAs.map(poolPDA => ({
             pubkey: poolPDA,
             isSigner: false,
             isWritable: true
@@ -107,7 +104,7 @@ export function validateDonationParams(params: DonationParams): {
 
     // Check minimum donation amount
     if (params.amount.lt(FEES.MIN_DONATION_AMOUNT)) {
-        errors.push(`Minimum donation is ${FEES.MIN_DONATION_AMOUNT.toNumber() / 1e9} SOL`);
+        errors.push(`Minimum donation is ${formatDecimalAmount(FEES.MIN_DONATION_AMOUNT, SOL_DECIMALS)} SOL`);
     }
 
     // Check maximum reasonable donation (to prevent overflow)
@@ -142,8 +139,8 @@ export function validateConsolidationParams(poolStatePDAs: PublicKey[]): {
         errors.push("At least one pool must be specified");
     }
 
-    if (poolStatePDAs.length > 20) {
-        errors.push("Maximum 20 pools per consolidation transaction");
+    if (poolStatePDAs.length > CONSOLIDATION.MAX_POOLS_PER_BATCH) {
+        errors.push(`Maximum ${CONSOLIDATION.MAX_POOLS_PER_BATCH} pools per consolidation transaction`);
     }
 
     // Check for duplicate pools
@@ -196,20 +193,22 @@ export function calculateConsolidationComputeUnits(poolCount: number): number {
  * @param donor - Donor's public key
  * @param amountSOL - Amount in SOL (display units)
  * @param message - Optional message
+ * @param version - Contract version (defaults to the active version)
  * @returns TransactionInstruction
  */
 export function createDonationInstructionWithDisplayAmount(
     donor: PublicKey,
-    amountSOL: number,
-    message?: string
+    amountSOL: DecimalInput,
+    message?: string,
+    version?: string
 ): TransactionInstruction {
-    const amount = new BN(amountSOL * 1e9); // Convert SOL to lamports
+    const amount = toBasisPoints(amountSOL, SOL_DECIMALS);
     
     return createDonateSolInstruction({
         donor,
         amount,
         message,
-    });
+    }, version);
 }
 
 /**
@@ -217,7 +216,7 @@ export function createDonationInstructionWithDisplayAmount(
  * @returns Minimum donation in SOL
  */
 export function getMinDonationSOL(): number {
-    return FEES.MIN_DONATION_AMOUNT.toNumber() / 1e9;
+    return fromBasisPoints(FEES.MIN_DONATION_AMOUNT, SOL_DECIMALS);
 }
 
 /**
@@ -226,8 +225,7 @@ export function getMinDonationSOL(): number {
  * @returns Formatted string with SOL amount
  */
 export function formatDonationAmount(lamports: BN): string {
-    const sol = lamports.toNumber() / 1e9;
-    return `${sol.toFixed(9)} SOL`;
+    return `${formatDecimalAmount(lamports, SOL_DECIMALS, { fractionDigits: SOL_DECIMALS })} SOL`;
 }
 
 /**
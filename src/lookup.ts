@@ -0,0 +1,255 @@
+import {
+    AddressLookupTableAccount,
+    AddressLookupTableProgram,
+    Connection,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { PROGRAM_ID, TRANSACTION_LIMITS } from './constants';
+import {
+    deriveLPTokenMintPDAs,
+    deriveMainTreasuryPDA,
+    deriveSystemStatePDA,
+    deriveTokenVaultPDAs,
+} from './utils';
+
+/**
+ * Address lookup tables and versioned (v0) transactions
+ */
+
+/**
+ * Get the static protocol accounts shared by every program instruction
+ * @param tokenProgram - Token program used by the pools (default: TOKEN_PROGRAM_ID)
+ * @returns PublicKey[] - Program ID, system state, main treasury, token program and system program
+ */
+export function getProtocolLookupAddresses(tokenProgram: PublicKey = TOKEN_PROGRAM_ID): PublicKey[] {
+    const [systemStatePDA] = deriveSystemStatePDA();
+    const [mainTreasuryPDA] = deriveMainTreasuryPDA();
+
+    return [PROGRAM_ID, systemStatePDA, mainTreasuryPDA, tokenProgram, SystemProgram.programId];
+}
+
+/**
+ * Get a pool's accounts for a lookup table
+ * @param poolStatePDA - The pool state PDA
+ * @returns PublicKey[] - Pool state, token vaults and LP token mints
+ */
+export function getPoolLookupAddresses(poolStatePDA: PublicKey): PublicKey[] {
+    const { tokenAVault: [tokenAVault], tokenBVault: [tokenBVault] } = deriveTokenVaultPDAs(poolStatePDA);
+    const { lpTokenAMint: [lpTokenAMint], lpTokenBMint: [lpTokenBMint] } = deriveLPTokenMintPDAs(poolStatePDA);
+
+    return [poolStatePDA, tokenAVault, tokenBVault, lpTokenAMint, lpTokenBMint];
+}
+
+/**
+ * Create a lookup table holding the protocol accounts and the accounts of the given pools
+ * The create instruction and the first extension fit in one transaction; send the rest afterwards
+ * @param authority - Lookup table authority (signer)
+ * @param payer - Account paying for the table (signer)
+ * @param recentSlot - A recent slot, used to derive the table address
+ * @param poolStatePDAs - Pools to include (default: none)
+ * @param tokenProgram - Token program used by the pools (default: TOKEN_PROGRAM_ID)
+ * @returns Object with the table address and instructions, one extension per entry after the first
+ */
+export function createProtocolLookupTableInstructions(
+    authority: PublicKey,
+    payer: PublicKey,
+    recentSlot: number,
+    poolStatePDAs: PublicKey[] = [],
+    tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): {
+    lookupTableAddress: PublicKey;
+    instructions: TransactionInstruction[][];
+} {
+    const [createInstruction, lookupTableAddress] = AddressLookupTableProgram.createLookupTable({
+        authority,
+        payer,
+        recentSlot,
+    });
+
+    const addresses = [
+        ...getProtocolLookupAddresses(tokenProgram),
+        ...poolStatePDAs.flatMap(getPoolLookupAddresses),
+    ];
+    const [firstExtension, ...extensions] = createExtendLookupTableInstructions(
+        lookupTableAddress,
+        authority,
+        payer,
+        addresses
+    );
+
+    return {
+        lookupTableAddress,
+        instructions: [[createInstruction, firstExtension], ...extensions.map(extension => [extension])],
+    };
+}
+
+/**
+ * Create instructions adding pools' accounts to an existing lookup table
+ * Addresses already in the table are skipped
+ * @param connection - Solana connection
+ * @param lookupTableAddress - The lookup table
+ * @param authority - Lookup table authority (signer)
+ * @param poolStatePDAs - Pools to add
+ * @param payer - Account paying for the extra space (default: authority)
+ * @returns Promise<TransactionInstruction[]> - Extend instructions, one per transaction
+ */
+export async function createExtendProtocolLookupTableInstructions(
+    connection: Connection,
+    lookupTableAddress: PublicKey,
+    authority: PublicKey,
+    poolStatePDAs: PublicKey[],
+    payer: PublicKey = authority
+): Promise<TransactionInstruction[]> {
+    const [lookupTable] = await fetchLookupTables(connection, [lookupTableAddress]);
+
+    return createExtendLookupTableInstructions(
+        lookupTableAddress,
+        authority,
+        payer,
+        poolStatePDAs.flatMap(getPoolLookupAddresses),
+        lookupTable.state.addresses
+    );
+}
+
+/**
+ * Create extend instructions for a lookup table, batched so each fits in one transaction
+ * @param lookupTableAddress - The lookup table
+ * @param authority - Lookup table authority (signer)
+ * @param payer - Account paying for the extra space (signer)
+ * @param addresses - Addresses to add (duplicates are removed)
+ * @param existingAddresses - Addresses already in the table (default: none)
+ * @returns TransactionInstruction[]
+ */
+export function createExtendLookupTableInstructions(
+    lookupTableAddress: PublicKey,
+    authority: PublicKey,
+    payer: PublicKey,
+    addresses: PublicKey[],
+    existingAddresses: PublicKey[] = []
+): TransactionInstruction[] {
+    const known = new Set(existingAddresses.map(address => address.toBase58()));
+    const missing = addresses.filter(address => {
+        const key = address.toBase58();
+        if (known.has(key)) {
+            return false;
+        }
+        known.add(key);
+        return true;
+    });
+
+    if (existingAddresses.length + missing.length > TRANSACTION_LIMITS.LOOKUP_TABLE_MAX_ADDRESSES) {
+        throw new Error(
+            `Lookup table would exceed ${TRANSACTION_LIMITS.LOOKUP_TABLE_MAX_ADDRESSES} addresses`
+        );
+    }
+
+    const instructions: TransactionInstruction[] = [];
+    for (let i = 0; i < missing.length; i += TRANSACTION_LIMITS.LOOKUP_TABLE_EXTEND_BATCH) {
+        instructions.push(AddressLookupTableProgram.extendLookupTable({
+            lookupTable: lookupTableAddress,
+            authority,
+            payer,
+            addresses: missing.slice(i, i + TRANSACTION_LIMITS.LOOKUP_TABLE_EXTEND_BATCH),
+        }));
+    }
+
+    return instructions;
+}
+
+/**
+ * Fetch lookup tables for compiling v0 messages
+ * @param connection - Solana connection
+ * @param addresses - Lookup table addresses
+ * @returns Promise<AddressLookupTableAccount[]> - Tables in the same order
+ */
+export async function fetchLookupTables(
+    connection: Connection,
+    addresses: PublicKey[]
+): Promise<AddressLookupTableAccount[]> {
+    const accounts = await connection.getMultipleAccountsInfo(addresses);
+
+    return addresses.map((key, index) => {
+        const account = accounts[index];
+        if (!account) {
+            throw new Error(`Lookup table not found: ${key.toBase58()}`);
+        }
+        return new AddressLookupTableAccount({
+            key,
+            state: AddressLookupTableAccount.deserialize(account.data),
+        });
+    });
+}
+
+/**
+ * Compile instructions into an unsigned v0 transaction
+ * Accounts found in the lookup tables are referenced by index instead of by key
+ * @param payer - Fee payer
+ * @param instructions - Transaction instructions
+ * @param recentBlockhash - Recent blockhash
+ * @param lookupTables - Lookup tables to compile against (default: none)
+ * @returns VersionedTransaction
+ */
+export function buildVersionedTransaction(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    recentBlockhash: string,
+    lookupTables: AddressLookupTableAccount[] = []
+): VersionedTransaction {
+    const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash,
+        instructions,
+    }).compileToV0Message(lookupTables);
+
+    const transaction = new VersionedTransaction(message);
+    const size = getTransactionSize(transaction);
+    if (size > TRANSACTION_LIMITS.PACKET_SIZE) {
+        throw new Error(
+            `Transaction is ${size} bytes, over the ${TRANSACTION_LIMITS.PACKET_SIZE} byte limit; ` +
+            `supply a lookup table holding its accounts or split it`
+        );
+    }
+
+    return transaction;
+}
+
+/**
+ * Get the serialized size of a transaction including its signatures
+ * Computed from the message layout, so oversized transactions can be measured without serializing
+ * @param transaction - Signed or unsigned transaction
+ * @returns Size in bytes
+ */
+export function getTransactionSize(transaction: VersionedTransaction): number {
+    const message = transaction.message;
+    const signatureCount = message.header.numRequiredSignatures;
+
+    const instructionsSize = message.compiledInstructions.reduce((sum, instruction) =>
+        sum + 1 + byteArraySize(instruction.accountKeyIndexes.length) + byteArraySize(instruction.data.length),
+    0);
+    const lookupsSize = message.addressTableLookups.reduce((sum, lookup) =>
+        sum + 32 + byteArraySize(lookup.writableIndexes.length) + byteArraySize(lookup.readonlyIndexes.length),
+    0);
+
+    return compactLengthSize(signatureCount) + signatureCount * 64
+        + (message.version === 'legacy' ? 0 : 1) // Version prefix
+        + 3 // Header
+        + compactLengthSize(message.staticAccountKeys.length) + message.staticAccountKeys.length * 32
+        + 32 // Recent blockhash
+        + compactLengthSize(message.compiledInstructions.length) + instructionsSize
+        + (message.version === 'legacy' ? 0 : compactLengthSize(message.addressTableLookups.length) + lookupsSize);
+}
+
+// Bytes used by a compact-u16 length prefix
+function compactLengthSize(length: number): number {
+    return length < 0x80 ? 1 : length < 0x4000 ? 2 : 3;
+}
+
+// Bytes used by a length-prefixed array of single bytes
+function byteArraySize(length: number): number {
+    return compactLengthSize(length) + length;
+}
@@ -0,0 +1,226 @@
+import {
+    AddressLookupTableAccount,
+    Commitment,
+    Connection,
+    NONCE_ACCOUNT_LENGTH,
+    NonceAccount,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    VersionedTransaction,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import { buildVersionedTransaction } from './lookup';
+import { deserializeSignedTransaction } from './signer';
+import { sendAndConfirmNonceTransaction } from './submit';
+import { NonceInfo, SubmitOptions } from './types';
+
+/**
+ * Durable nonce accounts and nonce transactions for delayed and offline (cold) signing
+ * Nonce transactions do not expire with the blockhash; they stay valid until the nonce is advanced
+ */
+
+// AdvanceNonceAccount index in the System Program instruction layout
+const ADVANCE_NONCE_INSTRUCTION_INDEX = 4;
+
+// WithdrawNonceAccount data: u32 instruction index, then u64 lamports
+const WITHDRAW_NONCE_LAMPORTS_OFFSET = 4;
+
+/**
+ * Create instructions that create and initialize a nonce account
+ * @param connection - Solana connection (for the rent-exempt balance)
+ * @param payer - Account funding the nonce account (signer)
+ * @param nonceAccount - New nonce account address (signer)
+ * @param authority - Account allowed to advance the nonce (default: payer)
+ * @returns Promise<TransactionInstruction[]>
+ */
+export async function createNonceAccountInstructions(
+    connection: Connection,
+    payer: PublicKey,
+    nonceAccount: PublicKey,
+    authority: PublicKey = payer
+): Promise<TransactionInstruction[]> {
+    const lamports = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+
+    return [
+        SystemProgram.createAccount({
+            fromPubkey: payer,
+            newAccountPubkey: nonceAccount,
+            lamports,
+            space: NONCE_ACCOUNT_LENGTH,
+            programId: SystemProgram.programId,
+        }),
+        SystemProgram.nonceInitialize({
+            noncePubkey: nonceAccount,
+            authorizedPubkey: authority,
+        }),
+    ];
+}
+
+/**
+ * Fetch a nonce account's current nonce and authority
+ * Run this online and carry the result to the signing machine
+ * @param connection - Solana connection
+ * @param nonceAccount - Nonce account address
+ * @param commitment - Optional commitment level
+ * @returns Promise<NonceInfo>
+ */
+export async function getNonceInfo(
+    connection: Connection,
+    nonceAccount: PublicKey,
+    commitment?: Commitment
+): Promise<NonceInfo> {
+    const accountInfo = await connection.getAccountInfo(nonceAccount, commitment);
+    if (!accountInfo) {
+        throw new Error(`Nonce account not found: ${nonceAccount.toBase58()}`);
+    }
+    if (!accountInfo.owner.equals(SystemProgram.programId) || accountInfo.data.length !== NONCE_ACCOUNT_LENGTH) {
+        throw new Error(`Account ${nonceAccount.toBase58()} is not a nonce account`);
+    }
+
+    const decoded = NonceAccount.fromAccountData(accountInfo.data);
+    return {
+        nonceAccount,
+        authority: decoded.authorizedPubkey,
+        nonce: decoded.nonce,
+        lamportsPerSignature: new BN(decoded.feeCalculator.lamportsPerSignature),
+    };
+}
+
+/**
+ * Create an instruction that advances a nonce, invalidating transactions built on the current value
+ * @param nonceAccount - Nonce account address
+ * @param authority - Nonce authority (signer)
+ * @returns TransactionInstruction
+ */
+export function createAdvanceNonceInstruction(nonceAccount: PublicKey, authority: PublicKey): TransactionInstruction {
+    return SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: authority });
+}
+
+/**
+ * Create an instruction that withdraws lamports from a nonce account (the whole balance closes it)
+ * @param nonceAccount - Nonce account address
+ * @param authority - Nonce authority (signer)
+ * @param destination - Account receiving the lamports
+ * @param lamports - Amount to withdraw
+ * @returns TransactionInstruction
+ */
+export function createWithdrawNonceInstruction(
+    nonceAccount: PublicKey,
+    authority: PublicKey,
+    destination: PublicKey,
+    lamports: BN
+): TransactionInstruction {
+    if (lamports.isNeg() || lamports.bitLength() > 64) {
+        throw new Error(`Invalid nonce withdrawal amount: ${lamports.toString()}`);
+    }
+
+    // nonceWithdraw encodes lamports through a JavaScript number, so the u64 is written here to stay
+    // exact above 2^53
+    const instruction = SystemProgram.nonceWithdraw({
+        noncePubkey: nonceAccount,
+        authorizedPubkey: authority,
+        toPubkey: destination,
+        lamports: 0,
+    });
+    lamports.toArrayLike(Buffer, 'le', 8).copy(instruction.data, WITHDRAW_NONCE_LAMPORTS_OFFSET);
+    return instruction;
+}
+
+/**
+ * Create an instruction that transfers nonce authority
+ * @param nonceAccount - Nonce account address
+ * @param authority - Current nonce authority (signer)
+ * @param newAuthority - New nonce authority
+ * @returns TransactionInstruction
+ */
+export function createAuthorizeNonceInstruction(
+    nonceAccount: PublicKey,
+    authority: PublicKey,
+    newAuthority: PublicKey
+): TransactionInstruction {
+    return SystemProgram.nonceAuthorize({
+        noncePubkey: nonceAccount,
+        authorizedPubkey: authority,
+        newAuthorizedPubkey: newAuthority,
+    });
+}
+
+/**
+ * Build an unsigned transaction that uses a durable nonce instead of a recent blockhash
+ * nonceAdvance is placed first, as the runtime requires. No RPC calls are made, so this works offline
+ * once the nonce has been fetched with getNonceInfo()
+ * @param payer - Fee payer
+ * @param instructions - Program instructions (including any compute budget instructions)
+ * @param nonce - Nonce account, authority and current nonce value
+ * @param lookupTables - Lookup tables to compile against (default: none)
+ * @returns VersionedTransaction - Serialize it with serializeUnsignedTransaction() for cold signing
+ */
+export function buildNonceTransaction(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    nonce: Pick<NonceInfo, 'nonceAccount' | 'authority' | 'nonce'>,
+    lookupTables: AddressLookupTableAccount[] = []
+): VersionedTransaction {
+    return buildVersionedTransaction(
+        payer,
+        [createAdvanceNonceInstruction(nonce.nonceAccount, nonce.authority), ...instructions],
+        nonce.nonce,
+        lookupTables
+    );
+}
+
+/**
+ * Check whether a transaction starts with a nonceAdvance instruction
+ * @param transaction - Transaction to check
+ * @returns True if the transaction uses a durable nonce
+ */
+export function isNonceTransaction(transaction: VersionedTransaction): boolean {
+    const [first] = transaction.message.compiledInstructions;
+    if (!first) {
+        return false;
+    }
+
+    const programId = transaction.message.staticAccountKeys[first.programIdIndex];
+    return programId.equals(SystemProgram.programId)
+        && first.data.length >= 4
+        && Buffer.from(first.data).readUInt32LE(0) === ADVANCE_NONCE_INSTRUCTION_INDEX;
+}
+
+/**
+ * Broadcast a nonce transaction signed elsewhere and wait for confirmation
+ * Rebroadcasts like submitTransaction(), but expiry follows the nonce account, since the transaction
+ * has no blockhash expiry
+ * @param connection - Solana connection
+ * @param signedTransaction - Signed transaction (base64)
+ * @param options - Target commitment (default 'confirmed'), simulation and rebroadcast intervals
+ * @returns Promise<string> - Transaction signature
+ * @throws FrtError for program errors, FrtExpiredError when the nonce was advanced without it landing
+ */
+export async function broadcastNonceTransaction(
+    connection: Connection,
+    signedTransaction: string,
+    options: SubmitOptions = {}
+): Promise<string> {
+    const transaction = deserializeSignedTransaction(signedTransaction);
+    const nonceAccount = getNonceAccount(transaction);
+    if (!nonceAccount) {
+        throw new Error("Transaction does not start with a nonceAdvance instruction");
+    }
+
+    return sendAndConfirmNonceTransaction(connection, transaction, nonceAccount, options);
+}
+
+/**
+ * Read the nonce account a transaction advances
+ * @param transaction - Transaction to inspect
+ * @returns Nonce account, or null if the transaction does not start with nonceAdvance
+ */
+export function getNonceAccount(transaction: VersionedTransaction): PublicKey | null {
+    if (!isNonceTransaction(transaction)) {
+        return null;
+    }
+
+    const [advance] = transaction.message.compiledInstructions;
+    return transaction.message.staticAccountKeys[advance.accountKeyIndexes[0]];
+}
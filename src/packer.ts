@@ -0,0 +1,147 @@
+import {
+    ComputeBudgetProgram,
+    PublicKey,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction,
+} from '@solana/web3.js';
+import { COMPUTE_BUDGET, TRANSACTION_LIMITS } from './constants';
+import { estimateComputeUnits } from './compute';
+import { getTransactionSize } from './lookup';
+import { PackedTransaction, PackOperation, PackOptions, PackResult } from './types';
+
+/**
+ * Multi-operation transaction packer
+ */
+
+// Placeholder blockhash for sizing; every blockhash serializes to 32 bytes
+const SIZING_BLOCKHASH = PublicKey.default.toBase58();
+
+// Operations that must land together, in their original order
+interface PackUnit {
+    operations: number[];
+    instructions: TransactionInstruction[];
+}
+
+/**
+ * Group operations into as few transactions as possible
+ * Each transaction stays within the packet size limit, the account lock limit and the compute budget
+ * (estimated from COMPUTE_UNITS). Operations are packed in order, each transaction filled before the
+ * next one starts; with allowReordering, a later operation may fill space left in an earlier transaction.
+ * @param payer - Fee payer of the transactions
+ * @param operations - Operations to pack
+ * @param options - Packing options
+ * @returns PackResult - Packed transactions and the transaction index of each operation
+ */
+export function packOperations(
+    payer: PublicKey,
+    operations: PackOperation[],
+    options: PackOptions = {}
+): PackResult {
+    const maxComputeUnits = Math.min(options.maxComputeUnits ?? COMPUTE_BUDGET.MAX_UNITS, COMPUTE_BUDGET.MAX_UNITS);
+    const bins: (PackUnit & { packed: PackedTransaction })[] = [];
+
+    for (const unit of groupOperations(operations)) {
+        const candidates = options.allowReordering ? bins : bins.slice(-1);
+        let placed = false;
+
+        for (const bin of candidates) {
+            const instructions = [...bin.instructions, ...unit.instructions];
+            const packed = tryPack(payer, instructions, maxComputeUnits, options);
+            if (packed) {
+                bin.operations.push(...unit.operations);
+                bin.instructions = instructions;
+                bin.packed = packed;
+                placed = true;
+                break;
+            }
+        }
+        if (placed) {
+            continue;
+        }
+
+        const packed = tryPack(payer, unit.instructions, maxComputeUnits, options);
+        if (!packed) {
+            throw new Error(`Operation ${unit.operations.join(', ')} does not fit in a single transaction`);
+        }
+        bins.push({ ...unit, packed });
+    }
+
+    const assignments = new Array<number>(operations.length);
+    const transactions = bins.map((bin, index) => {
+        bin.operations.forEach(operation => {
+            assignments[operation] = index;
+        });
+        return { ...bin.packed, operations: bin.operations };
+    });
+
+    return { transactions, assignments };
+}
+
+// Merge each run of grouped operations into a single unit
+// Groups must be contiguous, so merging never moves an operation past one outside its group
+function groupOperations(operations: PackOperation[]): PackUnit[] {
+    const units: PackUnit[] = [];
+    const closedGroups = new Set<string>();
+    let current: { group?: string; unit: PackUnit } | null = null;
+
+    operations.forEach((operation, index) => {
+        const { group } = operation;
+        if (group !== undefined && current && current.group === group) {
+            current.unit.operations.push(index);
+            current.unit.instructions.push(...operation.instructions);
+            return;
+        }
+
+        if (current?.group !== undefined) {
+            closedGroups.add(current.group);
+        }
+        if (group !== undefined && closedGroups.has(group)) {
+            throw new Error(`Operations in group "${group}" must be contiguous (operation ${index} is separated)`);
+        }
+
+        const unit = { operations: [index], instructions: [...operation.instructions] };
+        units.push(unit);
+        current = { group, unit };
+    });
+
+    return units;
+}
+
+// Budget and measure a candidate transaction; null if it breaks a limit
+function tryPack(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    maxComputeUnits: number,
+    options: PackOptions
+): PackedTransaction | null {
+    // Summed per instruction, since estimateComputeUnits caps its total at the transaction limit
+    const computeUnits = instructions.reduce((sum, instruction) => sum + estimateComputeUnits([instruction]), 0);
+    if (computeUnits > maxComputeUnits) {
+        return null;
+    }
+
+    const budgetInstructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits })];
+    if (options.microLamports) {
+        budgetInstructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: options.microLamports }));
+    }
+    const allInstructions = [...budgetInstructions, ...instructions];
+
+    const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: SIZING_BLOCKHASH,
+        instructions: allInstructions,
+    }).compileToV0Message(options.lookupTables);
+
+    const accountCount = message.staticAccountKeys.length + message.addressTableLookups.reduce(
+        (sum, lookup) => sum + lookup.writableIndexes.length + lookup.readonlyIndexes.length,
+        0
+    );
+    const size = getTransactionSize(new VersionedTransaction(message));
+
+    if (accountCount > TRANSACTION_LIMITS.MAX_ACCOUNT_LOCKS || size > TRANSACTION_LIMITS.PACKET_SIZE) {
+        return null;
+    }
+
+    return { instructions: allInstructions, operations: [], computeUnits, accountCount, size };
+}
@@ -0,0 +1,362 @@
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { PROGRAM_VERSION, PoolInstruction } from './constants';
+import { decodeMessage, encodeMessage } from './utils';
+
+/**
+ * Version-aware instruction schema registry
+ *
+ * Each deployed contract generation has its own discriminator table and
+ * instruction data layouts. Builders resolve both through this registry so a
+ * single library build can target every registered generation.
+ */
+
+export type InstructionFieldType = 'u8' | 'u32' | 'u64' | 'bool' | 'pubkey' | 'string';
+
+export interface InstructionField {
+    name: string;
+    type: InstructionFieldType;
+    maxLength?: number; // For string fields: maximum characters encoded
+}
+
+export interface InstructionSchema {
+    discriminator: number;
+    fields: InstructionField[];
+}
+
+export type InstructionName =
+    | 'InitializeProgram'
+    | 'InitializePool'
+    | 'Deposit'
+    | 'Withdraw'
+    | 'Swap'
+    | 'GetPoolStatePDA'
+    | 'GetTokenVaultPDAs'
+    | 'GetPoolInfo'
+    | 'GetPoolPauseStatus'
+    | 'GetLiquidityInfo'
+    | 'GetFeeInfo'
+    | 'GetPoolSolBalance'
+    | 'PauseSystem'
+    | 'UnpauseSystem'
+    | 'GetVersion'
+    | 'WithdrawTreasuryFees'
+    | 'GetTreasuryInfo'
+    | 'ConsolidatePoolFees'
+    | 'GetConsolidationStatus'
+    | 'PausePool'
+    | 'UnpausePool'
+    | 'SetSwapOwnerOnly'
+    | 'UpdatePoolFees'
+    | 'DonateSol';
+
+export type InstructionFieldValue = number | boolean | string | BN | PublicKey;
+
+export type InstructionSchemaTable = Partial<Record<InstructionName, InstructionSchema>>;
+
+// Data layouts shared by both generations
+const LAYOUTS = {
+    none: [] as InstructionField[],
+    initializePool: [
+        { name: 'ratioANumerator', type: 'u64' },
+        { name: 'ratioBDenominator', type: 'u64' },
+    ] as InstructionField[],
+    deposit: [
+        { name: 'depositTokenMint', type: 'pubkey' },
+        { name: 'amount', type: 'u64' },
+    ] as InstructionField[],
+    withdraw: [
+        { name: 'withdrawTokenMint', type: 'pubkey' },
+        { name: 'lpAmountToBurn', type: 'u64' },
+    ] as InstructionField[],
+    swap: [
+        { name: 'inputTokenMint', type: 'pubkey' },
+        { name: 'amountIn', type: 'u64' },
+        { name: 'expectedAmountOut', type: 'u64' },
+    ] as InstructionField[],
+    pauseSystem: [{ name: 'reasonCode', type: 'u8' }] as InstructionField[],
+    poolPauseFlags: [{ name: 'flags', type: 'u8' }] as InstructionField[],
+    updatePoolFees: [
+        { name: 'updateFlags', type: 'u8' },
+        { name: 'newLiquidityFee', type: 'u64' },
+        { name: 'newSwapFee', type: 'u64' },
+    ] as InstructionField[],
+    setSwapOwnerOnly: [
+        { name: 'enableRestriction', type: 'bool' },
+        { name: 'designatedOwner', type: 'pubkey' },
+    ] as InstructionField[],
+    withdrawTreasuryFees: [{ name: 'amount', type: 'u64' }] as InstructionField[],
+    donateSol: [
+        { name: 'amount', type: 'u64' },
+        { name: 'message', type: 'string', maxLength: 200 },
+    ] as InstructionField[],
+};
+
+/**
+ * Registered schema tables keyed by contract generation (major.minor)
+ */
+export const INSTRUCTION_SCHEMAS: Record<string, InstructionSchemaTable> = {
+    // Generation this library originally shipped against (PoolInstruction)
+    '0.14': {
+        InitializeProgram: { discriminator: PoolInstruction.InitializeProgram, fields: LAYOUTS.none },
+        PauseSystem: { discriminator: PoolInstruction.PauseSystem, fields: LAYOUTS.pauseSystem },
+        UnpauseSystem: { discriminator: PoolInstruction.UnpauseSystem, fields: LAYOUTS.none },
+        GetVersion: { discriminator: PoolInstruction.GetVersion, fields: LAYOUTS.none },
+        InitializePool: { discriminator: PoolInstruction.InitializePool, fields: LAYOUTS.initializePool },
+        PausePool: { discriminator: PoolInstruction.PausePool, fields: LAYOUTS.poolPauseFlags },
+        UnpausePool: { discriminator: PoolInstruction.UnpausePool, fields: LAYOUTS.poolPauseFlags },
+        UpdatePoolFees: { discriminator: PoolInstruction.UpdatePoolFees, fields: LAYOUTS.updatePoolFees },
+        Deposit: { discriminator: PoolInstruction.Deposit, fields: LAYOUTS.deposit },
+        Withdraw: { discriminator: PoolInstruction.Withdraw, fields: LAYOUTS.withdraw },
+        Swap: { discriminator: PoolInstruction.Swap, fields: LAYOUTS.swap },
+        SetSwapOwnerOnly: { discriminator: PoolInstruction.SetSwapOwnerOnly, fields: LAYOUTS.setSwapOwnerOnly },
+        WithdrawTreasuryFees: { discriminator: PoolInstruction.WithdrawTreasuryFees, fields: LAYOUTS.withdrawTreasuryFees },
+        GetTreasuryInfo: { discriminator: PoolInstruction.GetTreasuryInfo, fields: LAYOUTS.none },
+        DonateSol: { discriminator: PoolInstruction.DonateSol, fields: LAYOUTS.donateSol },
+        ConsolidatePoolFees: {
+            discriminator: PoolInstruction.ConsolidatePoolFees,
+            fields: [{ name: 'poolCount', type: 'u32' }],
+        },
+    },
+
+    // Generation documented in api/FIXED_RATIO_TRADING_API.md
+    '0.15': {
+        InitializeProgram: { discriminator: 0, fields: LAYOUTS.none },
+        InitializePool: { discriminator: 1, fields: LAYOUTS.initializePool },
+        Deposit: { discriminator: 2, fields: LAYOUTS.deposit },
+        Withdraw: { discriminator: 3, fields: LAYOUTS.withdraw },
+        Swap: { discriminator: 4, fields: LAYOUTS.swap },
+        GetPoolStatePDA: {
+            discriminator: 5,
+            fields: [
+                { name: 'primaryTokenMint', type: 'pubkey' },
+                { name: 'ratio', type: 'u64' },
+            ],
+        },
+        GetTokenVaultPDAs: { discriminator: 6, fields: [{ name: 'poolStatePDA', type: 'pubkey' }] },
+        GetPoolInfo: { discriminator: 7, fields: LAYOUTS.none },
+        GetPoolPauseStatus: { discriminator: 8, fields: LAYOUTS.none },
+        GetLiquidityInfo: { discriminator: 9, fields: LAYOUTS.none },
+        GetFeeInfo: { discriminator: 10, fields: LAYOUTS.none },
+        GetPoolSolBalance: { discriminator: 11, fields: LAYOUTS.none },
+        PauseSystem: { discriminator: 12, fields: LAYOUTS.pauseSystem },
+        UnpauseSystem: { discriminator: 13, fields: LAYOUTS.none },
+        GetVersion: { discriminator: 14, fields: LAYOUTS.none },
+        WithdrawTreasuryFees: { discriminator: 15, fields: LAYOUTS.withdrawTreasuryFees },
+        GetTreasuryInfo: { discriminator: 16, fields: LAYOUTS.none },
+        ConsolidatePoolFees: { discriminator: 17, fields: [{ name: 'poolCount', type: 'u8' }] },
+        GetConsolidationStatus: { discriminator: 18, fields: [{ name: 'poolCount', type: 'u8' }] },
+        PausePool: { discriminator: 19, fields: LAYOUTS.poolPauseFlags },
+        UnpausePool: { discriminator: 20, fields: LAYOUTS.poolPauseFlags },
+        SetSwapOwnerOnly: { discriminator: 21, fields: LAYOUTS.setSwapOwnerOnly },
+        UpdatePoolFees: { discriminator: 22, fields: LAYOUTS.updatePoolFees },
+        DonateSol: { discriminator: 23, fields: LAYOUTS.donateSol },
+    },
+};
+
+// Contract version standalone builders target when none is passed explicitly
+// FixedRatioTradingClient keeps its own version and passes it to every builder
+let activeContractVersion: string = PROGRAM_VERSION;
+
+/**
+ * Set the contract version standalone builders target when none is passed
+ * Clients are unaffected; use FixedRatioTradingClient.setContractVersion for those
+ * @param version - Contract version (e.g. "0.15.1053")
+ */
+export function setContractVersion(version: string): void {
+    resolveSchemaGeneration(version); // Validate before switching
+    activeContractVersion = version;
+}
+
+/**
+ * Get the contract version builders currently target
+ * @returns Contract version string
+ */
+export function getActiveContractVersion(): string {
+    return activeContractVersion;
+}
+
+/**
+ * Resolve the registered generation for a contract version
+ * Picks the newest registered generation that is not newer than the version
+ * @param version - Contract version (e.g. "0.15.1053")
+ * @returns Generation key in INSTRUCTION_SCHEMAS
+ */
+export function resolveSchemaGeneration(version: string): string {
+    const target = parseVersion(version);
+    const candidates = Object.keys(INSTRUCTION_SCHEMAS)
+        .filter(generation => compareVersions(parseVersion(generation), target) <= 0)
+        .sort((a, b) => compareVersions(parseVersion(b), parseVersion(a)));
+
+    if (candidates.length === 0) {
+        throw new Error(`No instruction schema registered for contract version ${version}`);
+    }
+    return candidates[0];
+}
+
+/**
+ * Look up the schema of an instruction
+ * @param name - Instruction name
+ * @param version - Contract version (defaults to the active version)
+ * @returns InstructionSchema
+ */
+export function getInstructionSchema(
+    name: InstructionName,
+    version: string = activeContractVersion
+): InstructionSchema {
+    const generation = resolveSchemaGeneration(version);
+    const schema = INSTRUCTION_SCHEMAS[generation][name];
+    if (!schema) {
+        throw new Error(`Instruction ${name} is not supported by contract version ${version}`);
+    }
+    return schema;
+}
+
+/**
+ * Serialize instruction data (discriminator + fields) for a contract version
+ * @param name - Instruction name
+ * @param values - Field values keyed by field name
+ * @param version - Contract version (defaults to the active version)
+ * @returns Buffer with the serialized instruction data
+ */
+export function encodeInstructionData(
+    name: InstructionName,
+    values: Record<string, InstructionFieldValue> = {},
+    version: string = activeContractVersion
+): Buffer {
+    const schema = getInstructionSchema(name, version);
+
+    return Buffer.concat([
+        Buffer.from([schema.discriminator]),
+        ...schema.fields.map(field => {
+            const value = values[field.name];
+            if (value === undefined) {
+                throw new Error(`Missing field ${field.name} for instruction ${name}`);
+            }
+            return encodeField(field, value);
+        }),
+    ]);
+}
+
+/**
+ * Deserialize instruction data for a contract version (inverse of encodeInstructionData)
+ * @param data - Instruction data (discriminator + fields)
+ * @param version - Contract version (defaults to the active version)
+ * @returns Instruction name and field values keyed by field name
+ */
+export function decodeInstructionData(
+    data: Buffer,
+    version: string = activeContractVersion
+): { name: InstructionName; values: Record<string, InstructionFieldValue> } {
+    if (data.length === 0) {
+        throw new Error('Invalid instruction data: empty');
+    }
+
+    const generation = resolveSchemaGeneration(version);
+    const entry = (Object.entries(INSTRUCTION_SCHEMAS[generation]) as [InstructionName, InstructionSchema][])
+        .find(([, schema]) => schema.discriminator === data[0]);
+    if (!entry) {
+        throw new Error(`Unknown instruction discriminator ${data[0]} for contract version ${version}`);
+    }
+
+    const [name, schema] = entry;
+    const values: Record<string, InstructionFieldValue> = {};
+    let offset = 1;
+
+    for (const field of schema.fields) {
+        const size = field.type === 'string' ? 4 : FIELD_SIZES[field.type];
+        if (data.length < offset + size) {
+            throw new Error(`Invalid ${name} data: expected at least ${offset + size} bytes, got ${data.length}`);
+        }
+
+        switch (field.type) {
+            case 'u8':
+                values[field.name] = data[offset];
+                break;
+            case 'u32':
+                values[field.name] = data.readUInt32LE(offset);
+                break;
+            case 'u64':
+                values[field.name] = new BN(data.subarray(offset, offset + 8), 'le');
+                break;
+            case 'bool':
+                values[field.name] = data[offset] !== 0;
+                break;
+            case 'pubkey':
+                values[field.name] = new PublicKey(data.subarray(offset, offset + 32));
+                break;
+            case 'string': {
+                const { message, bytesRead } = decodeMessage(data, offset);
+                values[field.name] = message;
+                offset += bytesRead;
+                continue;
+            }
+        }
+        offset += size;
+    }
+
+    return { name, values };
+}
+
+// Encoded sizes of fixed-width field types
+const FIELD_SIZES: Record<Exclude<InstructionFieldType, 'string'>, number> = {
+    u8: 1,
+    u32: 4,
+    u64: 8,
+    bool: 1,
+    pubkey: 32,
+};
+
+function encodeField(field: InstructionField, value: InstructionFieldValue): Buffer {
+    switch (field.type) {
+        case 'u8':
+            assertIntegerInRange(field, value as number, 0xff);
+            return Buffer.from([value as number]);
+        case 'u32': {
+            assertIntegerInRange(field, value as number, 0xffffffff);
+            const buffer = Buffer.alloc(4);
+            buffer.writeUInt32LE(value as number, 0);
+            return buffer;
+        }
+        case 'u64': {
+            const amount = value as BN;
+            if (amount.isNeg() || amount.bitLength() > 64) {
+                throw new Error(
+                    `Invalid u64 value for field ${field.name}: ${amount.toString()} (expected 0-18446744073709551615)`
+                );
+            }
+            return amount.toArrayLike(Buffer, 'le', 8);
+        }
+        case 'bool':
+            return Buffer.from([value ? 1 : 0]);
+        case 'pubkey':
+            return (value as PublicKey).toBuffer();
+        case 'string':
+            return encodeMessage(value as string, field.maxLength);
+    }
+}
+
+// Buffer writes would silently truncate out-of-range values
+function assertIntegerInRange(field: InstructionField, value: number, max: number): void {
+    if (!Number.isInteger(value) || value < 0 || value > max) {
+        throw new Error(`Invalid ${field.type} value for field ${field.name}: ${value} (expected 0-${max})`);
+    }
+}
+
+function parseVersion(version: string): number[] {
+    const parts = version.trim().replace(/^v/, '').split('.').map(part => parseInt(part, 10));
+    if (parts.length < 2 || parts.some(part => isNaN(part))) {
+        throw new Error(`Invalid contract version: ${version}`);
+    }
+    return parts;
+}
+
+function compareVersions(a: number[], b: number[]): number {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        const diff = (a[i] || 0) - (b[i] || 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,100 @@
+import { PublicKey, Signer, VersionedTransaction } from '@solana/web3.js';
+import { FrtSigner, SignerInput, WalletAdapter } from './types';
+
+/**
+ * Signers for keypairs, browser wallets and offline (cold) signing
+ */
+
+/**
+ * Create a signer from a keypair
+ * @param keypair - Keypair (or any web3.js Signer)
+ * @returns FrtSigner<'keypair'>
+ */
+export function createKeypairSigner(keypair: Signer): FrtSigner<'keypair'> {
+    return {
+        publicKey: keypair.publicKey,
+        kind: 'keypair',
+        async signTransactions(transactions: VersionedTransaction[]) {
+            transactions.forEach(transaction => transaction.sign([keypair]));
+            return transactions;
+        },
+    };
+}
+
+/**
+ * Create a signer from a wallet-standard adapter
+ * Uses signAllTransactions when the wallet supports it, so the user approves once
+ * @param wallet - Connected wallet (e.g. window.solana or a wallet-adapter instance)
+ * @returns FrtSigner<'wallet'>
+ */
+export function createWalletSigner(wallet: WalletAdapter): FrtSigner<'wallet'> {
+    if (!wallet.publicKey) {
+        throw new Error("Wallet is not connected");
+    }
+
+    return {
+        publicKey: wallet.publicKey,
+        kind: 'wallet',
+        async signTransactions(transactions: VersionedTransaction[]) {
+            if (wallet.signAllTransactions) {
+                return wallet.signAllTransactions(transactions);
+            }
+            const signed: VersionedTransaction[] = [];
+            for (const transaction of transactions) {
+                signed.push(await wallet.signTransaction(transaction));
+            }
+            return signed;
+        },
+    };
+}
+
+/**
+ * Create an offline signer for a public key whose private key is held elsewhere
+ * Workflows return unsigned base64 transactions for it; submit them with submitSignedTransaction()
+ * @param publicKey - Public key of the offline signer
+ * @returns FrtSigner<'offline'>
+ */
+export function createOfflineSigner(publicKey: PublicKey): FrtSigner<'offline'> {
+    return {
+        publicKey,
+        kind: 'offline',
+        async signTransactions() {
+            throw new Error("Offline signers cannot sign; serialize the transaction and sign it elsewhere");
+        },
+    };
+}
+
+/**
+ * Normalize a keypair or signer into an FrtSigner
+ * @param signer - web3.js Signer or FrtSigner
+ * @returns FrtSigner
+ */
+export function toFrtSigner(signer: SignerInput): FrtSigner {
+    return 'kind' in signer && 'signTransactions' in signer ? signer : createKeypairSigner(signer);
+}
+
+/**
+ * Serialize an unsigned transaction for signing elsewhere
+ * @param transaction - Unsigned transaction
+ * @returns Base64 encoded transaction
+ */
+export function serializeUnsignedTransaction(transaction: VersionedTransaction): string {
+    return Buffer.from(transaction.serialize()).toString('base64');
+}
+
+/**
+ * Deserialize a transaction signed elsewhere and check that every required signature is present
+ * @param signedTransaction - Base64 encoded signed transaction
+ * @returns VersionedTransaction
+ */
+export function deserializeSignedTransaction(signedTransaction: string): VersionedTransaction {
+    const transaction = VersionedTransaction.deserialize(Buffer.from(signedTransaction, 'base64'));
+    const signers = transaction.message.staticAccountKeys.slice(0, transaction.message.header.numRequiredSignatures);
+
+    const missing = signers.filter((_, index) => transaction.signatures[index].every(byte => byte === 0));
+    if (missing.length > 0) {
+        throw new Error(`Transaction is missing signatures from: ${missing.map(key => key.toBase58()).join(', ')}`);
+    }
+
+    return transaction;
+}
@@ -0,0 +1,194 @@
+import { AccountInfo, Commitment, Connection, PublicKey } from '@solana/web3.js';
+import { unpackAccount, unpackMint } from '@solana/spl-token';
+import { decodePoolState } from './accounts/pool';
+import { assertProgramOwned, MAX_ACCOUNTS_PER_REQUEST } from './accounts/reader';
+import { PoolSnapshot, PoolState, PoolStoreOptions } from './types';
+
+/**
+ * Batched, cached account store for pools, vaults and LP mints
+ */
+
+const DEFAULT_TTL_MS = 10_000;
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+interface CacheEntry {
+    accountInfo: AccountInfo<Buffer> | null;
+    expiresAt: number;
+}
+
+/**
+ * Holds fetched accounts for a configurable TTL
+ * Misses are fetched with getMultipleAccountsInfo in chunks of 100, and
+ * concurrent requests for the same address share a single in-flight fetch.
+ * Expired entries are dropped when read, and the oldest entries are evicted
+ * once the cache holds more than maxEntries accounts.
+ */
+export class PoolStore {
+    private readonly ttlMs: number;
+    private readonly maxEntries: number;
+    private readonly commitment?: Commitment;
+    private readonly cache = new Map<string, CacheEntry>();
+    private readonly inFlight = new Map<string, Promise<AccountInfo<Buffer> | null>>();
+
+    constructor(
+        public connection: Connection,
+        options: PoolStoreOptions = {}
+    ) {
+        this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        this.commitment = options.commitment;
+    }
+
+    /**
+     * Get raw account infos, serving fresh entries from the cache
+     * @param addresses - Account addresses
+     * @returns Promise of account infos in the same order (null for missing accounts)
+     */
+    async getAccounts(addresses: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+        const now = Date.now();
+        const pending = new Map<string, Promise<AccountInfo<Buffer> | null>>();
+        const toFetch: PublicKey[] = [];
+
+        for (const address of addresses) {
+            const key = address.toBase58();
+            if (pending.has(key)) {
+                continue;
+            }
+
+            const cached = this.cache.get(key);
+            if (cached && cached.expiresAt > now) {
+                pending.set(key, Promise.resolve(cached.accountInfo));
+                continue;
+            }
+            if (cached) {
+                this.cache.delete(key);
+            }
+
+            const inFlight = this.inFlight.get(key);
+            if (inFlight) {
+                pending.set(key, inFlight);
+                continue;
+            }
+
+            toFetch.push(address);
+        }
+
+        for (let i = 0; i < toFetch.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+            const chunk = toFetch.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+            const request = this.connection.getMultipleAccountsInfo(chunk, this.commitment);
+
+            chunk.forEach((address, index) => {
+                const key = address.toBase58();
+                const promise = request
+                    .then(infos => {
+                        const accountInfo = infos[index] ?? null;
+                        this.remember(key, accountInfo);
+                        return accountInfo;
+                    })
+                    .finally(() => {
+                        this.inFlight.delete(key);
+                    });
+                this.inFlight.set(key, promise);
+                pending.set(key, promise);
+            });
+        }
+
+        return Promise.all(addresses.map(address => pending.get(address.toBase58())!));
+    }
+
+    /**
+     * Get decoded pool states
+     * @param poolStatePDAs - Pool state PDAs
+     * @returns Promise of decoded pool states (null for missing pools)
+     */
+    async getPoolStates(poolStatePDAs: PublicKey[]): Promise<(PoolState | null)[]> {
+        const infos = await this.getAccounts(poolStatePDAs);
+        return infos.map((info, index) => {
+            if (!info) {
+                return null;
+            }
+            assertProgramOwned(info, poolStatePDAs[index]);
+            return decodePoolState(info.data);
+        });
+    }
+
+    /**
+     * Get a decoded pool state
+     * @param poolStatePDA - Pool state PDA
+     * @returns Promise<PoolState | null>
+     */
+    async getPoolState(poolStatePDA: PublicKey): Promise<PoolState | null> {
+        const [poolState] = await this.getPoolStates([poolStatePDA]);
+        return poolState;
+    }
+
+    /**
+     * Get pools together with their vault and LP mint accounts
+     * Uses one batched round for the pool states and one for their dependents
+     * @param poolStatePDAs - Pool state PDAs
+     * @returns Promise of pool snapshots (null for missing pools)
+     */
+    async getPools(poolStatePDAs: PublicKey[]): Promise<(PoolSnapshot | null)[]> {
+        const poolStates = await this.getPoolStates(poolStatePDAs);
+
+        const dependents = poolStates.flatMap(poolState => poolState
+            ? [poolState.tokenAVault, poolState.tokenBVault, poolState.lpTokenAMint, poolState.lpTokenBMint]
+            : []);
+        const infos = await this.getAccounts(dependents);
+
+        let cursor = 0;
+        return poolStates.map((poolState, index): PoolSnapshot | null => {
+            if (!poolState) {
+                return null;
+            }
+            const [vaultA, vaultB, lpMintA, lpMintB] = infos.slice(cursor, cursor + 4);
+            cursor += 4;
+
+            return {
+                poolStatePDA: poolStatePDAs[index],
+                poolState,
+                tokenAVault: vaultA ? unpackAccount(poolState.tokenAVault, vaultA, vaultA.owner) : null,
+                tokenBVault: vaultB ? unpackAccount(poolState.tokenBVault, vaultB, vaultB.owner) : null,
+                lpTokenAMint: lpMintA ? unpackMint(poolState.lpTokenAMint, lpMintA, lpMintA.owner) : null,
+                lpTokenBMint: lpMintB ? unpackMint(poolState.lpTokenBMint, lpMintB, lpMintB.owner) : null,
+            };
+        });
+    }
+
+    /**
+     * Get a pool together with its vault and LP mint accounts
+     * @param poolStatePDA - Pool state PDA
+     * @returns Promise<PoolSnapshot | null>
+     */
+    async getPool(poolStatePDA: PublicKey): Promise<PoolSnapshot | null> {
+        const [pool] = await this.getPools([poolStatePDA]);
+        return pool;
+    }
+
+    // Entries share one TTL, so insertion order is expiry order: evict from the front
+    private remember(key: string, accountInfo: AccountInfo<Buffer> | null): void {
+        this.cache.delete(key);
+        this.cache.set(key, { accountInfo, expiresAt: Date.now() + this.ttlMs });
+
+        for (const oldest of this.cache.keys()) {
+            if (this.cache.size <= this.maxEntries) {
+                break;
+            }
+            this.cache.delete(oldest);
+        }
+    }
+
+    /**
+     * Drop cached entries so the next read goes to the RPC
+     * @param addresses - Addresses to invalidate (all entries if omitted)
+     */
+    invalidate(addresses?: PublicKey[]): void {
+        if (!addresses) {
+            this.cache.clear();
+            return;
+        }
+        for (const address of addresses) {
+            this.cache.delete(address.toBase58());
+        }
+    }
+}
@@ -0,0 +1,292 @@
+import { Commitment, Connection, NonceAccount, PublicKey, SignatureStatus, VersionedTransaction } from '@solana/web3.js';
+import { SUBMISSION } from './constants';
+import { FrtExpiredError, FrtUnknownStatusError, fromInstructionError, fromSimulationResult, toFrtError } from './errors';
+import { SubmitOptions, SubmitOutcome } from './types';
+
+/**
+ * Transaction submission with rebroadcasting and blockhash (or durable nonce) expiry detection
+ */
+
+const COMMITMENT_RANK: Record<string, number> = {
+    processed: 0,
+    confirmed: 1,
+    finalized: 2,
+};
+
+/**
+ * Send a signed transaction and rebroadcast it until it lands at the target commitment or its
+ * blockhash expires
+ * Expiry is only reported once the confirmed block height has passed lastValidBlockHeight and a final
+ * status check finds nothing, so an expired transaction can never land later
+ * @param connection - Solana connection
+ * @param transaction - Signed transaction
+ * @param lastValidBlockHeight - Last block height at which the transaction's blockhash is valid
+ * @param options - Target commitment, simulation and rebroadcast intervals
+ * @returns Promise<SubmitOutcome> - confirmed, failed (landed with a program error) or expired (safe to retry)
+ * @throws FrtUnknownStatusError when status or expiry reads fail maxRpcFailures times in a row
+ */
+export async function submitTransaction(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    lastValidBlockHeight: number,
+    options: SubmitOptions = {}
+): Promise<SubmitOutcome> {
+    return submitUntilExpired(
+        connection,
+        transaction,
+        async () => await connection.getBlockHeight('confirmed') > lastValidBlockHeight,
+        lastValidBlockHeight,
+        options
+    );
+}
+
+/**
+ * Send a signed durable nonce transaction and rebroadcast it until it lands at the target commitment
+ * or its nonce is advanced
+ * The transaction's blockhash is the nonce value, so it expires only once the nonce account holds a
+ * different value and a final status check finds nothing
+ * @param connection - Solana connection
+ * @param transaction - Signed transaction built with buildNonceTransaction()
+ * @param nonceAccount - Nonce account the transaction advances
+ * @param options - Target commitment, simulation and rebroadcast intervals
+ * @returns Promise<SubmitOutcome> - confirmed, failed or expired (lastValidBlockHeight is null)
+ * @throws FrtUnknownStatusError when status or expiry reads fail maxRpcFailures times in a row
+ */
+export async function submitNonceTransaction(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    nonceAccount: PublicKey,
+    options: SubmitOptions = {}
+): Promise<SubmitOutcome> {
+    const nonceValue = transaction.message.recentBlockhash;
+    return submitUntilExpired(
+        connection,
+        transaction,
+        async () => {
+            const accountInfo = await connection.getAccountInfo(nonceAccount, 'confirmed');
+            return !accountInfo || NonceAccount.fromAccountData(accountInfo.data).nonce !== nonceValue;
+        },
+        null,
+        options
+    );
+}
+
+/**
+ * Submit a signed durable nonce transaction and return its signature, throwing on failure or expiry
+ * @param connection - Solana connection
+ * @param transaction - Signed transaction built with buildNonceTransaction()
+ * @param nonceAccount - Nonce account the transaction advances
+ * @param options - Target commitment, simulation and rebroadcast intervals
+ * @returns Promise<string> - Transaction signature
+ * @throws FrtError for program errors, FrtExpiredError when the nonce was advanced without it landing,
+ * FrtUnknownStatusError when the RPC keeps failing
+ */
+export async function sendAndConfirmNonceTransaction(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    nonceAccount: PublicKey,
+    options: SubmitOptions = {}
+): Promise<string> {
+    return unwrapOutcome(await submitNonceTransaction(connection, transaction, nonceAccount, options));
+}
+
+// Shared send and rebroadcast loop; hasExpired reports when the transaction can no longer land
+async function submitUntilExpired(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    hasExpired: () => Promise<boolean>,
+    lastValidBlockHeight: number | null,
+    options: SubmitOptions
+): Promise<SubmitOutcome> {
+    const commitment = options.commitment || 'confirmed';
+    const resendIntervalMs = options.resendIntervalMs ?? SUBMISSION.RESEND_INTERVAL_MS;
+    const pollIntervalMs = options.pollIntervalMs ?? SUBMISSION.POLL_INTERVAL_MS;
+    const serialized = transaction.serialize();
+    const sendOptions = { skipPreflight: true, maxRetries: 0, preflightCommitment: commitment };
+
+    if (!options.skipSimulation) {
+        const simulation = await connection.simulateTransaction(transaction, { commitment });
+        const failure = fromSimulationResult(simulation.value);
+        if (failure) {
+            throw failure;
+        }
+    }
+
+    let signature: string;
+    try {
+        signature = await connection.sendRawTransaction(serialized, sendOptions);
+    } catch (error) {
+        throw toFrtError(error);
+    }
+    let sendCount = 1;
+    let lastSentAt = Date.now();
+
+    // RPC failures inside the loop are retried at the next poll, up to maxRpcFailures in a row
+    const maxRpcFailures = options.maxRpcFailures ?? SUBMISSION.MAX_RPC_FAILURES;
+    let rpcFailures = 0;
+    const recordRpcFailure = (error: unknown) => {
+        rpcFailures++;
+        if (rpcFailures >= maxRpcFailures) {
+            throw createUnknownStatusError(signature, rpcFailures, error);
+        }
+    };
+
+    for (;;) {
+        await sleep(pollIntervalMs);
+
+        let status: SignatureStatus | null;
+        try {
+            ({ value: [status] } = await connection.getSignatureStatuses([signature]));
+        } catch (error) {
+            recordRpcFailure(error);
+            continue;
+        }
+        if (status && reachedCommitment(status, commitment)) {
+            return toOutcome(connection, signature, status, sendCount);
+        }
+
+        // Still checked once landed: a transaction seen on a dropped fork can still expire
+        let expired: boolean;
+        try {
+            expired = await hasExpired();
+        } catch (error) {
+            recordRpcFailure(error);
+            continue;
+        }
+        rpcFailures = 0;
+
+        if (expired) {
+            // The transaction may have landed between the status check and the expiry check
+            let finalStatus: SignatureStatus | null;
+            try {
+                ({ value: [finalStatus] } = await connection.getSignatureStatuses([signature], {
+                    searchTransactionHistory: true,
+                }));
+            } catch (error) {
+                recordRpcFailure(error);
+                continue;
+            }
+            if (!finalStatus) {
+                return { status: 'expired', signature, slot: null, sendCount, lastValidBlockHeight };
+            }
+            if (reachedCommitment(finalStatus, commitment)) {
+                return toOutcome(connection, signature, finalStatus, sendCount);
+            }
+            continue;
+        }
+
+        if (status) {
+            continue; // Landed; wait for the target commitment without rebroadcasting
+        }
+
+        if (Date.now() - lastSentAt >= resendIntervalMs) {
+            lastSentAt = Date.now();
+            try {
+                await connection.sendRawTransaction(serialized, sendOptions);
+                sendCount++;
+            } catch (error) {
+                // A failed rebroadcast is retried at the next interval; expiry still ends the loop
+            }
+        }
+    }
+}
+
+/**
+ * Submit a signed transaction and return its signature, throwing on failure or expiry
+ * @param connection - Solana connection
+ * @param transaction - Signed transaction
+ * @param lastValidBlockHeight - Last block height at which the transaction's blockhash is valid
+ * @param options - Target commitment, simulation and rebroadcast intervals
+ * @returns Promise<string> - Transaction signature
+ * @throws FrtError for program errors, FrtExpiredError when the blockhash expired (safe to retry),
+ * FrtUnknownStatusError when the RPC keeps failing
+ */
+export async function sendAndConfirm(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    lastValidBlockHeight: number,
+    options: SubmitOptions = {}
+): Promise<string> {
+    return unwrapOutcome(await submitTransaction(connection, transaction, lastValidBlockHeight, options));
+}
+
+function unwrapOutcome(outcome: SubmitOutcome): string {
+    if (outcome.status === 'failed') {
+        throw outcome.error;
+    }
+    if (outcome.status === 'expired') {
+        throw createExpiredError(outcome.signature, outcome.lastValidBlockHeight);
+    }
+    return outcome.signature;
+}
+
+function createUnknownStatusError(signature: string, failures: number, cause: unknown): FrtUnknownStatusError {
+    return new FrtUnknownStatusError({
+        code: null,
+        errorName: 'UnknownStatus',
+        message: `Status of transaction ${signature} is unknown after ${failures} consecutive RPC failures`,
+        hint: "The transaction may still land; check its signature before rebuilding and resending",
+        cause,
+    }, signature);
+}
+
+function createExpiredError(signature: string, lastValidBlockHeight: number | null): FrtExpiredError {
+    if (lastValidBlockHeight === null) {
+        return new FrtExpiredError({
+            code: null,
+            errorName: 'NonceAdvanced',
+            message: `Transaction ${signature} expired: its nonce was advanced without it landing`,
+            hint: "Fetch the current nonce with getNonceInfo(), then rebuild and sign the transaction again",
+        });
+    }
+    return new FrtExpiredError({
+        code: null,
+        errorName: 'BlockhashExpired',
+        message: `Transaction ${signature} expired at block height ${lastValidBlockHeight} without landing`,
+        hint: "Rebuild the transaction with a new blockhash and send it again",
+    });
+}
+
+// Nodes that omit confirmationStatus report confirmations instead: null once rooted (finalized),
+// otherwise the status is treated as processed
+function reachedCommitment(status: SignatureStatus, commitment: Commitment): boolean {
+    const reached = status.confirmationStatus
+        ? COMMITMENT_RANK[status.confirmationStatus]
+        : status.confirmations === null ? COMMITMENT_RANK.finalized : COMMITMENT_RANK.processed;
+    return reached >= (COMMITMENT_RANK[commitment] ?? COMMITMENT_RANK.confirmed);
+}
+
+// Program errors are decoded with the transaction's logs when they can be fetched
+async function toOutcome(
+    connection: Connection,
+    signature: string,
+    status: SignatureStatus,
+    sendCount: number
+): Promise<SubmitOutcome> {
+    if (!status.err) {
+        return { status: 'confirmed', signature, slot: status.slot, sendCount };
+    }
+
+    let logs: string[] = [];
+    try {
+        const transaction = await connection.getTransaction(signature, {
+            commitment: 'confirmed',
+            maxSupportedTransactionVersion: 0,
+        });
+        logs = transaction?.meta?.logMessages || [];
+    } catch (error) {
+        // Decode from the status error alone
+    }
+
+    return {
+        status: 'failed',
+        signature,
+        slot: status.slot,
+        sendCount,
+        error: fromInstructionError(status.err, logs),
+    };
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,246 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { POOL_FLAGS } from './constants';
+import { deriveSystemStatePDA } from './utils';
+import { decodePoolState } from './accounts/pool';
+import { decodeSystemState } from './accounts/protocol';
+import {
+    AccountUpdate,
+    PoolChangeEvent,
+    PoolState,
+    PoolUpdate,
+    Subscription,
+    SystemChangeEvent,
+    SystemState,
+    SystemStateUpdate,
+    WatchOptions,
+} from './types';
+
+/**
+ * Live account subscriptions with typed change events
+ */
+
+const DEFAULT_RESYNC_INTERVAL_MS = 30_000;
+
+// Pause flags reported as paused/unpaused events
+const WATCHED_PAUSE_FLAGS = [POOL_FLAGS.LIQUIDITY_PAUSED, POOL_FLAGS.SWAPS_PAUSED];
+
+/**
+ * Watch a pool state account for changes
+ * @param connection - Solana connection
+ * @param poolStatePDA - Pool state PDA
+ * @param handler - Called with before/after snapshots and semantic events
+ * @param options - Watch options
+ * @returns Subscription handle
+ */
+export function watchPool(
+    connection: Connection,
+    poolStatePDA: PublicKey,
+    handler: (update: PoolUpdate) => void,
+    options: WatchOptions = {}
+): Subscription {
+    return watchAccount(connection, poolStatePDA, decodePoolState, diffPoolState, handler, options);
+}
+
+/**
+ * Watch the system state account for pause/unpause changes
+ * @param connection - Solana connection
+ * @param handler - Called with before/after snapshots and semantic events
+ * @param options - Watch options
+ * @returns Subscription handle
+ */
+export function watchSystemState(
+    connection: Connection,
+    handler: (update: SystemStateUpdate) => void,
+    options: WatchOptions = {}
+): Subscription {
+    const [systemStatePDA] = deriveSystemStatePDA();
+    return watchAccount(connection, systemStatePDA, decodeSystemState, diffSystemState, handler, options);
+}
+
+/**
+ * Derive semantic events from two pool state snapshots
+ * @param before - Previous snapshot (null for the first one)
+ * @param after - Current snapshot
+ * @returns Detected change events
+ */
+export function diffPoolState(before: PoolState | null, after: PoolState): PoolChangeEvent[] {
+    if (!before) {
+        return [];
+    }
+
+    const events: PoolChangeEvent[] = [];
+
+    if (!before.totalTokenALiquidity.eq(after.totalTokenALiquidity) ||
+        !before.totalTokenBLiquidity.eq(after.totalTokenBLiquidity)) {
+        events.push({
+            type: 'liquidityChanged',
+            tokenADelta: after.totalTokenALiquidity.sub(before.totalTokenALiquidity),
+            tokenBDelta: after.totalTokenBLiquidity.sub(before.totalTokenBLiquidity),
+        });
+    }
+
+    if (after.totalSolFeesCollected.gt(before.totalSolFeesCollected) ||
+        after.collectedFeesTokenA.gt(before.collectedFeesTokenA) ||
+        after.collectedFeesTokenB.gt(before.collectedFeesTokenB)) {
+        events.push({
+            type: 'feesAccrued',
+            solFeesDelta: after.totalSolFeesCollected.sub(before.totalSolFeesCollected),
+            tokenAFeesDelta: after.collectedFeesTokenA.sub(before.collectedFeesTokenA),
+            tokenBFeesDelta: after.collectedFeesTokenB.sub(before.collectedFeesTokenB),
+        });
+    }
+
+    for (const flag of WATCHED_PAUSE_FLAGS) {
+        const wasSet = (before.flags & flag) !== 0;
+        const isSet = (after.flags & flag) !== 0;
+        if (wasSet !== isSet) {
+            events.push({ type: isSet ? 'paused' : 'unpaused', flag });
+        }
+    }
+
+    if (!before.owner.equals(after.owner)) {
+        events.push({ type: 'ownerChanged', previousOwner: before.owner, newOwner: after.owner });
+    }
+
+    if (after.totalConsolidations.gt(before.totalConsolidations)) {
+        events.push({
+            type: 'consolidated',
+            amount: after.totalFeesConsolidated.sub(before.totalFeesConsolidated),
+            totalConsolidations: after.totalConsolidations,
+        });
+    }
+
+    return events;
+}
+
+/**
+ * Derive semantic events from two system state snapshots
+ * @param before - Previous snapshot (null for the first one)
+ * @param after - Current snapshot
+ * @returns Detected change events
+ */
+export function diffSystemState(before: SystemState | null, after: SystemState): SystemChangeEvent[] {
+    if (!before || before.isPaused === after.isPaused) {
+        return [];
+    }
+
+    return after.isPaused
+        ? [{ type: 'paused', reasonCode: after.pauseReasonCode, pauseTimestamp: after.pauseTimestamp }]
+        : [{ type: 'unpaused', previousReasonCode: before.pauseReasonCode }];
+}
+
+/**
+ * Generic account watcher
+ * Subscribes via onAccountChange and re-reads the account on every resync. web3.js
+ * resubscribes by itself after a reconnect, so the subscription is only re-created when
+ * the re-read finds a change newer than the last notification, i.e. one it missed.
+ */
+function watchAccount<TState, TEvent>(
+    connection: Connection,
+    address: PublicKey,
+    decode: (data: Buffer) => TState,
+    diff: (before: TState | null, after: TState) => TEvent[],
+    handler: (update: AccountUpdate<TState, TEvent>) => void,
+    options: WatchOptions
+): Subscription {
+    const commitment = options.commitment || 'confirmed';
+    const resyncIntervalMs = options.resyncIntervalMs || DEFAULT_RESYNC_INTERVAL_MS;
+    const emitInitial = options.emitInitial !== false;
+    const reportError = (error: unknown) => {
+        if (options.onError) {
+            options.onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    };
+
+    let lastData: Buffer | null = null;
+    let lastState: TState | null = null;
+    let lastSlot = 0;
+    let lastNotificationSlot = 0;
+    let listenerId: number | null = null;
+    let closed = false;
+
+    // Returns true when the data changed
+    const apply = (data: Buffer, slot: number, notify: boolean): boolean => {
+        if (closed || slot < lastSlot) {
+            return false;
+        }
+        lastSlot = slot;
+        if (lastData && lastData.equals(data)) {
+            return false;
+        }
+
+        let after: TState;
+        try {
+            after = decode(data);
+        } catch (error) {
+            reportError(error);
+            return false;
+        }
+
+        const before = lastState;
+        lastData = Buffer.from(data);
+        lastState = after;
+
+        if (notify) {
+            handler({ address, slot, before, after, events: diff(before, after) });
+        }
+        return true;
+    };
+
+    const subscribe = () => {
+        listenerId = connection.onAccountChange(
+            address,
+            (accountInfo, context) => {
+                lastNotificationSlot = Math.max(lastNotificationSlot, context.slot);
+                apply(accountInfo.data, context.slot, true);
+            },
+            commitment
+        );
+    };
+
+    const unsubscribeListener = async () => {
+        if (listenerId === null) {
+            return;
+        }
+        const id = listenerId;
+        listenerId = null;
+        try {
+            await connection.removeAccountChangeListener(id);
+        } catch (error) {
+            // The socket may already be gone; nothing left to clean up
+        }
+    };
+
+    const resync = async (initial: boolean) => {
+        try {
+            const { context, value } = await connection.getAccountInfoAndContext(address, commitment);
+            if (closed || !value) {
+                return;
+            }
+
+            const changed = apply(value.data, context.slot, !initial || emitInitial);
+            if (!initial && changed && context.slot > lastNotificationSlot) {
+                // The subscription missed this change; remove it first so the RPC subscription
+                // itself is torn down, not just shared
+                await unsubscribeListener();
+                if (!closed) {
+                    subscribe();
+                }
+            }
+        } catch (error) {
+            reportError(error);
+        }
+    };
+
+    subscribe();
+    void resync(true);
+    const timer = setInterval(() => void resync(false), resyncIntervalMs);
+
+    return {
+        unsubscribe: async () => {
+            closed = true;
+            clearInterval(timer);
+            await unsubscribeListener();
+        },
+    };
+}
@@ -0,0 +1,170 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+    ExtensionType,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    TransferFee,
+    calculateFee,
+    getEpochFee,
+    getExtensionTypes,
+    getTransferFeeConfig,
+    unpackMint,
+} from '@solana/spl-token';
+import BN from 'bn.js';
+import { PoolTokenPrograms, SwapTransferFees, TokenMintInfo } from './types';
+
+/**
+ * SPL Token and Token-2022 mint support
+ */
+
+// Mint extensions the contract cannot operate pools with
+// Transfer hooks need extra accounts the contract does not pass; the others can
+// block or claw back vault transfers
+export const UNSUPPORTED_MINT_EXTENSIONS: readonly ExtensionType[] = [
+    ExtensionType.TransferHook,
+    ExtensionType.NonTransferable,
+    ExtensionType.PermanentDelegate,
+    ExtensionType.DefaultAccountState,
+    ExtensionType.ConfidentialTransferMint,
+];
+
+/**
+ * Get the token program that owns a mint
+ * @param connection - Solana connection
+ * @param mint - Token mint
+ * @returns Promise<PublicKey> - TOKEN_PROGRAM_ID or TOKEN_2022_PROGRAM_ID
+ */
+export async function getTokenProgramId(connection: Connection, mint: PublicKey): Promise<PublicKey> {
+    const [info] = await getTokenMintInfos(connection, [mint]);
+    return info.programId;
+}
+
+/**
+ * Fetch mints with their owning program and extensions in one RPC call
+ * @param connection - Solana connection
+ * @param mints - Token mints
+ * @returns Promise<TokenMintInfo[]> - Mint details in the same order
+ */
+export async function getTokenMintInfos(connection: Connection, mints: PublicKey[]): Promise<TokenMintInfo[]> {
+    const accounts = await connection.getMultipleAccountsInfo(mints);
+    return mints.map((mint, index) => decodeTokenMint(mint, accounts[index]));
+}
+
+/**
+ * Decode a mint account owned by SPL Token or Token-2022
+ * @param mint - Mint address
+ * @param accountInfo - Mint account
+ * @returns TokenMintInfo
+ */
+export function decodeTokenMint(mint: PublicKey, accountInfo: AccountInfo<Buffer> | null): TokenMintInfo {
+    if (!accountInfo) {
+        throw new Error(`Mint not found: ${mint.toBase58()}`);
+    }
+
+    const programId = accountInfo.owner;
+    if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+        throw new Error(`Account ${mint.toBase58()} is not a token mint (owner ${programId.toBase58()})`);
+    }
+
+    const decoded = unpackMint(mint, accountInfo, programId);
+
+    return {
+        mint,
+        programId,
+        decimals: decoded.decimals,
+        extensions: getExtensionTypes(decoded.tlvData),
+        transferFeeConfig: getTransferFeeConfig(decoded),
+    };
+}
+
+/**
+ * Validate that the contract can operate a pool with a mint
+ * @param mintInfo - Mint details
+ * @returns Validation result
+ */
+export function validateMintExtensions(mintInfo: TokenMintInfo): {
+    isValid: boolean;
+    errors: string[];
+} {
+    const errors = mintInfo.extensions
+        .filter(extension => UNSUPPORTED_MINT_EXTENSIONS.includes(extension))
+        .map(extension => `Mint ${mintInfo.mint.toBase58()} uses unsupported extension ${ExtensionType[extension]}`);
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+    };
+}
+
+/**
+ * Resolve the token program for a pool's mints
+ * The contract takes a single token program account, so both mints must share it
+ * @param connection - Solana connection
+ * @param tokenAMint - Token A mint
+ * @param tokenBMint - Token B mint
+ * @returns Promise<PoolTokenPrograms> - Shared token program and mint details
+ */
+export async function getPoolTokenPrograms(
+    connection: Connection,
+    tokenAMint: PublicKey,
+    tokenBMint: PublicKey
+): Promise<PoolTokenPrograms> {
+    const [tokenA, tokenB] = await getTokenMintInfos(connection, [tokenAMint, tokenBMint]);
+
+    const errors = [...validateMintExtensions(tokenA).errors, ...validateMintExtensions(tokenB).errors];
+    if (!tokenA.programId.equals(tokenB.programId)) {
+        errors.push("Pool mints are owned by different token programs");
+    }
+    if (errors.length > 0) {
+        throw new Error(`Unsupported pool mints: ${errors.join(', ')}`);
+    }
+
+    return { tokenProgram: tokenA.programId, tokenA, tokenB };
+}
+
+/**
+ * Get the transfer fee in effect for a mint
+ * @param mintInfo - Mint details
+ * @param epoch - Current epoch
+ * @returns TransferFee or null if the mint has no transfer fee extension
+ */
+export function getTransferFee(mintInfo: TokenMintInfo, epoch: number): TransferFee | null {
+    return mintInfo.transferFeeConfig ? getEpochFee(mintInfo.transferFeeConfig, BigInt(epoch)) : null;
+}
+
+/**
+ * Fetch the transfer fees in effect for a swap's input and output mints
+ * The epoch is only fetched if either mint has a transfer fee
+ * @param connection - Solana connection
+ * @param input - Input mint details
+ * @param output - Output mint details
+ * @returns Promise<SwapTransferFees>
+ */
+export async function getSwapTransferFees(
+    connection: Connection,
+    input: TokenMintInfo,
+    output: TokenMintInfo
+): Promise<SwapTransferFees> {
+    if (!input.transferFeeConfig && !output.transferFeeConfig) {
+        return {};
+    }
+
+    const { epoch } = await connection.getEpochInfo();
+    return {
+        input: getTransferFee(input, epoch),
+        output: getTransferFee(output, epoch),
+    };
+}
+
+/**
+ * Calculate the fee withheld when transferring an amount
+ * @param amount - Amount sent in basis points
+ * @param transferFee - Transfer fee in effect (none if null)
+ * @returns Fee in basis points of the token
+ */
+export function calculateTransferFee(amount: BN, transferFee?: TransferFee | null): BN {
+    if (!transferFee) {
+        return new BN(0);
+    }
+    return new BN(calculateFee(transferFee, BigInt(amount.toString())).toString());
+}
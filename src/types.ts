@@ -1,5 +1,17 @@
-import { PublicKey } from '@solana/web3.js';
+import {
+    AddressLookupTableAccount,
+    Commitment,
+    Finality,
+    PublicKey,
+    Signer,
+    Transaction,
+    TransactionInstruction,
+    VersionedTransaction,
+} from '@solana/web3.js';
+import { Account, ExtensionType, Mint, TransferFee, TransferFeeConfig } from '@solana/spl-token';
 import BN from 'bn.js';
+import type { DecodedInstruction } from './decoder';
+import type { FrtError } from './errors';
 
 /**
  * TypeScript type definitions for Fixed Ratio Trading
@@ -20,6 +32,219 @@ export interface PoolInfo {
     swapFee: BN;
 }
 
+/**
+ * Decoded on-chain PoolState account
+ * All token amounts and ratios are in basis points (smallest token units),
+ * all SOL amounts are in lamports
+ */
+export interface PoolState {
+    owner: PublicKey;
+    tokenAMint: PublicKey;
+    tokenBMint: PublicKey;
+    tokenAVault: PublicKey;
+    tokenBVault: PublicKey;
+    lpTokenAMint: PublicKey;
+    lpTokenBMint: PublicKey;
+    ratioANumerator: BN;
+    ratioBDenominator: BN;
+    totalTokenALiquidity: BN;
+    totalTokenBLiquidity: BN;
+    poolAuthorityBumpSeed: number;
+    tokenAVaultBumpSeed: number;
+    tokenBVaultBumpSeed: number;
+    lpTokenAMintBumpSeed: number;
+    lpTokenBMintBumpSeed: number;
+    flags: number;
+    contractLiquidityFee: BN;
+    swapContractFee: BN;
+    collectedFeesTokenA: BN;
+    collectedFeesTokenB: BN;
+    totalFeesWithdrawnTokenA: BN;
+    totalFeesWithdrawnTokenB: BN;
+    collectedLiquidityFees: BN;
+    collectedSwapContractFees: BN;
+    totalSolFeesCollected: BN;
+    lastConsolidationTimestamp: BN;
+    totalConsolidations: BN;
+    totalFeesConsolidated: BN;
+    maxSwapAmount: BN;
+    minSwapAmount: BN;
+    maxDepositAmount: BN;
+    minDepositAmount: BN;
+    maxWithdrawalAmount: BN;
+    minWithdrawalAmount: BN;
+
+    // Flag accessors
+    oneToManyRatio: boolean;
+    liquidityPaused: boolean;
+    swapsPaused: boolean;
+    withdrawalProtectionActive: boolean;
+    onlyLpTokenAForBoth: boolean;
+    swapForOwnersOnly: boolean;
+
+    // Computed values
+    pendingSolFees: BN; // SOL fees awaiting consolidation
+}
+
+/**
+ * A decoded pool together with its pool state address
+ */
+export interface PoolAccount {
+    poolStatePDA: PublicKey;
+    poolState: PoolState;
+}
+
+/**
+ * A pool for a token pair with market data resolved from its mints and vaults
+ * Prices are in display units: 1 whole token A = priceAInB whole token B
+ */
+export interface PairPool extends PoolAccount {
+    tokenADecimals: number;
+    tokenBDecimals: number;
+    priceAInB: number;
+    priceBInA: number;
+    availableTokenA: BN; // Token A vault balance (basis points)
+    availableTokenB: BN; // Token B vault balance (basis points)
+    isPaused: boolean;
+}
+
+/**
+ * Filter for pool discovery
+ * All provided criteria must match
+ */
+export interface PoolFilter {
+    mint?: PublicKey; // Pools containing this mint on either side
+    pair?: [PublicKey, PublicKey]; // Pools for this exact pair, in either order
+    owner?: PublicKey;
+    paused?: boolean; // true: swaps or liquidity paused, false: fully unpaused
+}
+
+/**
+ * A pool with its vault and LP mint accounts, as held by PoolStore
+ * Vault and mint entries are null when the account does not exist
+ */
+export interface PoolSnapshot extends PoolAccount {
+    tokenAVault: Account | null;
+    tokenBVault: Account | null;
+    lpTokenAMint: Mint | null;
+    lpTokenBMint: Mint | null;
+}
+
+export interface PoolStoreOptions {
+    ttlMs?: number; // How long fetched accounts stay fresh (default 10s)
+    maxEntries?: number; // Accounts kept before the oldest are evicted (default 10,000)
+    commitment?: Commitment;
+}
+
+/**
+ * Decoded on-chain SystemState account
+ */
+export interface SystemState {
+    isPaused: boolean;
+    pauseTimestamp: BN; // Unix timestamp (seconds)
+    pauseReasonCode: number;
+}
+
+/**
+ * Decoded on-chain MainTreasuryState account
+ * All amounts are in lamports, timestamps are Unix seconds
+ */
+export interface MainTreasuryState {
+    totalBalance: BN;
+    rentExemptMinimum: BN;
+    totalWithdrawn: BN;
+    poolCreationCount: BN;
+    liquidityOperationCount: BN;
+    regularSwapCount: BN;
+    treasuryWithdrawalCount: BN;
+    failedOperationCount: BN;
+    totalPoolCreationFees: BN;
+    totalLiquidityFees: BN;
+    totalRegularSwapFees: BN;
+    totalSwapContractFees: BN;
+    lastUpdateTimestamp: BN;
+    lastWithdrawalTimestamp: BN;
+    totalConsolidationsPerformed: BN;
+    donationCount: BN;
+    totalDonations: BN;
+
+    // Computed values
+    availableForWithdrawal: BN; // Balance above the rent-exempt minimum
+    totalFeesCollected: BN; // Pool creation + liquidity + regular swap fees
+}
+
+export type TreasuryWithdrawalBlock =
+    | 'restartPenalty' // System restart penalty has not expired
+    | 'rateLimited' // A withdrawal was made within the current window
+    | 'rentExemptFloor'; // Nothing above the rent-exempt minimum
+
+/**
+ * What the main treasury allows to be withdrawn at a given cluster time
+ */
+export interface TreasuryWithdrawalStatus {
+    hourlyLimit: BN; // Current per-window limit (lamports)
+    availableAboveRent: BN; // Balance above the rent-exempt minimum (lamports)
+    availableNow: BN; // Largest withdrawal allowed right now (0 when blocked)
+    nextAllowedTimestamp: BN; // Earliest Unix time a withdrawal is allowed
+    secondsUntilAllowed: number; // 0 when a withdrawal is allowed now
+    penaltyEndsAt: BN | null; // End of an active restart penalty
+    blockedReason: TreasuryWithdrawalBlock | null;
+    message: string;
+}
+
+/**
+ * Protocol-wide state read in a single RPC call
+ * A field is null when the corresponding account does not exist
+ */
+export interface ProtocolState {
+    systemState: SystemState | null;
+    mainTreasuryState: MainTreasuryState | null;
+}
+
+/**
+ * Semantic change detected between two pool state snapshots
+ */
+export type PoolChangeEvent =
+    | { type: 'liquidityChanged'; tokenADelta: BN; tokenBDelta: BN }
+    | { type: 'feesAccrued'; solFeesDelta: BN; tokenAFeesDelta: BN; tokenBFeesDelta: BN }
+    | { type: 'paused'; flag: number }
+    | { type: 'unpaused'; flag: number }
+    | { type: 'ownerChanged'; previousOwner: PublicKey; newOwner: PublicKey }
+    | { type: 'consolidated'; amount: BN; totalConsolidations: BN };
+
+/**
+ * Semantic change detected between two system state snapshots
+ */
+export type SystemChangeEvent =
+    | { type: 'paused'; reasonCode: number; pauseTimestamp: BN }
+    | { type: 'unpaused'; previousReasonCode: number };
+
+/**
+ * Account update delivered to a watch handler
+ * `before` is null for the first snapshot
+ */
+export interface AccountUpdate<TState, TEvent> {
+    address: PublicKey;
+    slot: number;
+    before: TState | null;
+    after: TState;
+    events: TEvent[];
+}
+
+export type PoolUpdate = AccountUpdate<PoolState, PoolChangeEvent>;
+export type SystemStateUpdate = AccountUpdate<SystemState, SystemChangeEvent>;
+
+export interface WatchOptions {
+    commitment?: Commitment;
+    resyncIntervalMs?: number; // How often to re-read the account to catch missed notifications (default 30s)
+    emitInitial?: boolean; // Deliver the current state immediately (default true)
+    onError?: (error: Error) => void;
+}
+
+export interface Subscription {
+    unsubscribe(): Promise<void>;
+}
+
 export interface TreasuryInfo {
     totalBalance: BN;
     totalFeesCollected: BN;
@@ -36,6 +261,18 @@ export interface SwapResult {
     fees: BN;
 }
 
+export interface SwapQuote {
+    amountIn: BN;
+    amountOut: BN;
+    inputTokenMint: PublicKey;
+    outputTokenMint: PublicKey;
+    availableOutput: BN; // Output vault balance
+    inputTransferFee: BN; // Token-2022 fee withheld on the input transfer (input token)
+    outputTransferFee: BN; // Token-2022 fee withheld on the output transfer (output token)
+    isValid: boolean;
+    errors: string[];
+}
+
 export interface LiquidityResult {
     tokenAAmount: BN;
     tokenBAmount: BN;
@@ -43,6 +280,34 @@ export interface LiquidityResult {
     fees: BN;
 }
 
+/**
+ * A token mint with its owning program and Token-2022 extensions
+ */
+export interface TokenMintInfo {
+    mint: PublicKey;
+    programId: PublicKey; // TOKEN_PROGRAM_ID or TOKEN_2022_PROGRAM_ID
+    decimals: number;
+    extensions: ExtensionType[];
+    transferFeeConfig: TransferFeeConfig | null;
+}
+
+/**
+ * Token program shared by a pool's mints, with both mints' details
+ */
+export interface PoolTokenPrograms {
+    tokenProgram: PublicKey;
+    tokenA: TokenMintInfo;
+    tokenB: TokenMintInfo;
+}
+
+/**
+ * Token-2022 transfer fees in effect for a swap's input and output mints
+ */
+export interface SwapTransferFees {
+    input?: TransferFee | null;
+    output?: TransferFee | null;
+}
+
 export interface TokenInfo {
     mint: PublicKey;
     decimals: number;
@@ -56,15 +321,29 @@ export interface PoolCreationParams {
     ratioA: BN;
     ratioB: BN;
     userAuthority: PublicKey;
+    tokenProgram?: PublicKey; // Token program of both mints (default TOKEN_PROGRAM_ID)
 }
 
 export interface LiquidityParams {
     poolStatePDA: PublicKey;
     depositAmount: BN;
     depositTokenMint: PublicKey;
+    otherTokenMint: PublicKey; // The pool's other mint, used to pick the vault and LP mint side
     userAuthority: PublicKey;
     userTokenAccount: PublicKey;
     userLpAccount: PublicKey;
+    tokenProgram?: PublicKey; // Token program of the pool's mints (default TOKEN_PROGRAM_ID)
+}
+
+export interface WithdrawParams {
+    poolStatePDA: PublicKey;
+    withdrawAmount: BN; // LP tokens to burn
+    withdrawTokenMint: PublicKey; // Token to receive (A or B)
+    otherTokenMint: PublicKey; // The pool's other mint, used to pick the vault and LP mint side
+    userAuthority: PublicKey;
+    userLpAccount: PublicKey;
+    userTokenAccount: PublicKey; // Receives the withdrawn tokens
+    tokenProgram?: PublicKey; // Token program of the pool's mints (default TOKEN_PROGRAM_ID)
 }
 
 export interface SwapParams {
@@ -72,10 +351,12 @@ export interface SwapParams {
     amountIn: BN;
     expectedAmountOut: BN;
     inputTokenMint: PublicKey;
+    outputTokenMint: PublicKey;
     userAuthority: PublicKey;
     userInputAccount: PublicKey;
     userOutputAccount: PublicKey;
     slippageTolerance?: number; // percentage (default 1%)
+    tokenProgram?: PublicKey; // Token program of the pool's mints (default TOKEN_PROGRAM_ID)
 }
 
 export interface DonationParams {
@@ -84,6 +365,384 @@ export interface DonationParams {
     message?: string;
 }
 
+/**
+ * Display amount in whole token units (e.g. 1.5, "1.5" or 2n)
+ * Strings and bigints are parsed exactly; numbers are read through their shortest decimal representation
+ */
+export type DecimalInput = number | string | bigint;
+
+/**
+ * Rounding applied when an amount has more digits than the target precision
+ * - down / up: toward / away from zero
+ * - halfUp: nearest, ties away from zero
+ * - halfEven: nearest, ties to the even digit
+ * - exact: throw instead of rounding
+ */
+export type RoundingMode = 'down' | 'up' | 'halfUp' | 'halfEven' | 'exact';
+
+/**
+ * Amount accepted by the send workflows
+ * BN values are basis points (lamports for SOL), numbers, strings and bigints are display units
+ */
+export type AmountInput = BN | DecimalInput;
+
+export interface SwapExecutionParams {
+    poolStatePDA: PublicKey;
+    inputTokenMint: PublicKey;
+    amountIn: AmountInput;
+    slippageTolerance?: number; // percentage (default 1%)
+}
+
+export interface DepositExecutionParams {
+    poolStatePDA: PublicKey;
+    depositTokenMint: PublicKey;
+    amount: AmountInput;
+}
+
+export interface WithdrawExecutionParams {
+    poolStatePDA: PublicKey;
+    withdrawTokenMint: PublicKey; // Token to receive; burns the matching LP token
+    lpAmount: AmountInput;
+}
+
+export interface DonationExecutionParams {
+    amount: AmountInput; // Display amounts are SOL
+    message?: string;
+}
+
+export interface ExecutionOptions {
+    commitment?: Commitment; // Confirmation commitment (default 'confirmed')
+    skipSimulation?: boolean; // Send without simulating first (default false)
+    computeBudget?: ComputeBudgetOptions; // Compute unit limit and priority fee
+    keepWrappedSol?: boolean; // Leave wSOL in its token account instead of unwrapping (default false)
+    lookupTables?: AddressLookupTableAccount[]; // Lookup tables to compile the v0 message against
+    resendIntervalMs?: number; // Rebroadcast interval while unconfirmed (default SUBMISSION.RESEND_INTERVAL_MS)
+    contractVersion?: string; // Contract version to encode instructions for (default: the active version)
+    nonce?: Pick<NonceInfo, 'nonceAccount' | 'authority' | 'nonce'>; // Build on a durable nonce instead of a recent blockhash
+}
+
+/**
+ * Options for submitting a signed transaction
+ */
+export interface SubmitOptions {
+    commitment?: Commitment; // 'processed', 'confirmed' or 'finalized' (default 'confirmed')
+    skipSimulation?: boolean; // Send without simulating first (default false)
+    resendIntervalMs?: number; // default SUBMISSION.RESEND_INTERVAL_MS
+    pollIntervalMs?: number; // default SUBMISSION.POLL_INTERVAL_MS
+    maxRpcFailures?: number; // Consecutive RPC failures before giving up (default SUBMISSION.MAX_RPC_FAILURES)
+}
+
+/**
+ * Outcome of submitting a transaction
+ * - confirmed: landed without error at the target commitment
+ * - failed: landed at the target commitment but a program rejected it (fees were charged)
+ * - expired: the blockhash expired (or the durable nonce was advanced) without the transaction landing;
+ *   it is safe to rebuild and resend. lastValidBlockHeight is null for nonce transactions
+ */
+export type SubmitOutcome =
+    | { status: 'confirmed'; signature: string; slot: number; sendCount: number }
+    | { status: 'failed'; signature: string; slot: number; sendCount: number; error: FrtError }
+    | { status: 'expired'; signature: string; slot: null; sendCount: number; lastValidBlockHeight: number | null };
+
+/**
+ * Priority fee selection
+ * Levels take a percentile of recent fees paid for the transaction's writable accounts
+ */
+export type PriorityFeeStrategy = 'none' | 'low' | 'medium' | 'high' | { microLamports: number };
+
+export interface ComputeBudgetOptions {
+    computeUnits?: 'table' | 'simulate' | number; // Limit source (default 'table', from COMPUTE_UNITS)
+    margin?: number; // Headroom over simulated units (default COMPUTE_BUDGET.SIMULATION_MARGIN)
+    priorityFee?: PriorityFeeStrategy; // default 'none'
+    maxMicroLamports?: number; // Cap on the selected compute unit price
+}
+
+/**
+ * Compute budget instructions to prepend to a transaction
+ */
+export interface ComputeBudgetPlan {
+    instructions: TransactionInstruction[];
+    computeUnitLimit: number;
+    microLamports: number; // Compute unit price (0 = no priority fee)
+    priorityFee: BN; // Maximum priority fee (lamports): limit * price
+}
+
+/**
+ * An operation for the transaction packer
+ * Operations sharing a group are all-or-nothing: they always land in the same transaction
+ * Members of a group must be listed next to each other
+ */
+export interface PackOperation {
+    instructions: TransactionInstruction[]; // e.g. token account setup plus a swap or deposit
+    group?: string;
+}
+
+export interface PackOptions {
+    lookupTables?: AddressLookupTableAccount[]; // Tables the transactions will be compiled against
+    maxComputeUnits?: number; // Per-transaction budget (default COMPUTE_BUDGET.MAX_UNITS)
+    microLamports?: number; // Compute unit price to include (default none)
+    allowReordering?: boolean; // Let later operations fill space left in earlier transactions (default false)
+}
+
+/**
+ * A packed transaction, ready to compile with buildVersionedTransaction()
+ */
+export interface PackedTransaction {
+    instructions: TransactionInstruction[]; // Compute budget instructions first, then the operations
+    operations: number[]; // Indexes of the operations in this transaction
+    computeUnits: number; // Compute unit limit from COMPUTE_UNITS
+    accountCount: number; // Accounts the transaction locks
+    size: number; // Serialized size in bytes, signatures included
+}
+
+export interface PackResult {
+    transactions: PackedTransaction[];
+    assignments: number[]; // Transaction index for each operation
+}
+
+/**
+ * Outcome of a sent and confirmed workflow transaction
+ * Amounts are read from the confirmed transaction's balance changes when available
+ */
+export interface ExecutionResult {
+    signature: string;
+    slot: number | null;
+    tokenMint: PublicKey | null; // Input, deposit or withdrawal mint
+    amountIn: BN; // Swap input, deposit amount, LP tokens burned or donated lamports
+    amountOut: BN; // Swap output, LP tokens minted or tokens withdrawn
+    networkFee: BN; // Transaction fee (lamports)
+    protocolFee: BN; // SOL fee collected by the pool and treasury (lamports)
+    priorityFee: BN; // Priority fee budgeted for the transaction (lamports, included in networkFee)
+    realized: boolean; // False if the transaction could not be fetched and amounts are estimates
+}
+
+export type ActivityType = 'swap' | 'deposit' | 'withdraw' | 'donation' | 'consolidation';
+
+export type ConsolidationSkipReason =
+    | 'duplicate' // Listed more than once
+    | 'notFound' // Missing or not a pool state account
+    | 'notPaused' // System active and the pool does not have both swaps and liquidity paused
+    | 'noPendingFees' // Nothing collected since the last consolidation
+    | 'rentProtected'; // Pool balance is at its rent-exempt minimum
+
+/**
+ * A pool that can be consolidated, with the amount the contract will move
+ */
+export interface ConsolidationCandidate {
+    poolStatePDA: PublicKey;
+    pendingSolFees: BN; // Collected minus consolidated (lamports)
+    lamports: BN; // Pool state account balance
+    rentExemptMinimum: BN; // Balance the pool must keep
+    availableForConsolidation: BN; // Pending fees, capped at the balance above the rent-exempt minimum
+    partial: boolean; // True if rent protection caps the amount below the pending fees
+}
+
+export interface SkippedConsolidation {
+    poolStatePDA: PublicKey;
+    reason: ConsolidationSkipReason;
+    message: string;
+}
+
+export interface ConsolidationBatch {
+    pools: ConsolidationCandidate[];
+    instruction: TransactionInstruction;
+    computeUnits: number; // From calculateConsolidationComputeUnits
+    totalAvailable: BN; // lamports
+}
+
+/**
+ * Consolidation plan: eligible pools split into batches, plus the pools left out and why
+ */
+export interface ConsolidationPlan {
+    systemPaused: boolean; // Paused system consolidates every pool regardless of pool flags
+    batches: ConsolidationBatch[];
+    skipped: SkippedConsolidation[];
+    totalAvailable: BN; // lamports
+}
+
+export type FrtSignerKind = 'keypair' | 'wallet' | 'offline';
+
+/**
+ * Signs workflow transactions for a keypair, a browser wallet or an offline signing flow
+ * Offline signers cannot sign; workflows return the unsigned transaction instead of sending
+ */
+export interface FrtSigner<K extends FrtSignerKind = FrtSignerKind> {
+    publicKey: PublicKey;
+    kind: K;
+    signTransactions(transactions: VersionedTransaction[]): Promise<VersionedTransaction[]>;
+}
+
+/**
+ * Wallet-standard signing interface (Phantom, Solflare, wallet-adapter)
+ */
+export interface WalletAdapter {
+    publicKey: PublicKey | null;
+    signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T>;
+    signAllTransactions?<T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]>;
+}
+
+// A raw keypair or any FrtSigner
+export type SignerInput = Signer | FrtSigner;
+
+/**
+ * A workflow transaction built for an offline signer
+ * Sign `transaction` elsewhere, then pass both back to submitSignedTransaction()
+ */
+export interface UnsignedExecution {
+    transaction: string; // Unsigned v0 transaction (base64)
+    signer: PublicKey;
+    type: ActivityType;
+    blockhash: string; // Recent blockhash, or the nonce value for durable nonce transactions
+    lastValidBlockHeight: number | null; // null for durable nonce transactions
+    nonceAccount: PublicKey | null; // Nonce account the transaction advances (null: recent blockhash)
+    estimate: Pick<ExecutionResult, 'tokenMint' | 'amountIn' | 'amountOut'>;
+    priorityFee: BN;
+    accounts: PublicKey[]; // Cached accounts to invalidate once the transaction lands
+}
+
+/**
+ * Durable nonce state for building transactions that do not expire with the blockhash
+ */
+export interface NonceInfo {
+    nonceAccount: PublicKey;
+    authority: PublicKey;
+    nonce: string; // Current nonce value, used as the transaction's recent blockhash
+    lamportsPerSignature: BN;
+}
+
+/**
+ * Outcome of sending one consolidation batch
+ * A failed batch carries its error; the remaining batches are still sent
+ */
+export interface ConsolidationBatchOutcome<S extends SignerInput = SignerInput> {
+    batch: ConsolidationBatch;
+    outcome?: ExecutionOutcome<S>;
+    error?: FrtError;
+}
+
+// Offline signers get the unsigned transaction back; every other signer gets the confirmed result
+export type ExecutionOutcome<S extends SignerInput> = S extends FrtSigner<'offline'>
+    ? UnsignedExecution
+    : S extends FrtSigner<'keypair' | 'wallet'> | Signer
+        ? ExecutionResult
+        : ExecutionResult | UnsignedExecution;
+
+/**
+ * A decoded Fixed Ratio Trading operation from transaction history
+ * Token amounts are in basis points, SOL amounts in lamports
+ */
+export interface ActivityEntry {
+    type: ActivityType;
+    signature: string;
+    slot: number;
+    blockTime: number | null; // Unix timestamp (seconds)
+    signer: PublicKey; // Account that authorized the operation (fee payer for consolidations)
+    success: boolean;
+    poolStatePDAs: PublicKey[]; // Pools touched (several for consolidations)
+    tokenMint: PublicKey | null; // Input, deposit or withdrawal mint
+    amountIn: BN; // Swap input, deposit amount, LP tokens burned or donated lamports
+    amountOut: BN; // Swap output, LP tokens minted, tokens withdrawn or consolidated lamports
+    networkFee: BN; // Transaction fee (lamports)
+    protocolFee: BN; // SOL fee collected by the pool and treasury (lamports)
+    message?: string; // Donation message
+    instruction: DecodedInstruction;
+}
+
+export interface ActivityOptions {
+    before?: string; // Start searching backwards from this signature
+    until?: string; // Stop at this signature
+    limit?: number; // Maximum signatures to scan (default 100)
+    includeFailed?: boolean; // Include failed transactions (default false)
+    commitment?: Finality;
+    contractVersion?: string; // Decode with this version only (default: match every registered generation)
+}
+
+/**
+ * Options for simulation-only queries
+ */
+export interface QueryOptions {
+    payer?: PublicKey; // Existing account to simulate as fee payer (default: throwaway keypair)
+    commitment?: Commitment;
+    allowFailure?: boolean; // Parse logs even if the simulation fails (default false)
+    contractVersion?: string; // Contract version to encode the query for (default: the active version)
+}
+
+/**
+ * Typed results of simulation-only queries, parsed from program logs
+ * Queries throw FrtQueryParseError rather than return a result with a field missing
+ */
+export interface PoolInfoQueryResult {
+    owner: PublicKey;
+    tokenAMint: PublicKey;
+    tokenBMint: PublicKey;
+    ratioA: BN;
+    ratioB: BN;
+    logs: string[];
+}
+
+export interface PoolPauseStatusQueryResult {
+    liquidityPaused: boolean;
+    swapsPaused: boolean;
+    logs: string[];
+}
+
+export interface LiquidityInfoQueryResult {
+    tokenALiquidity: BN;
+    tokenBLiquidity: BN;
+    logs: string[];
+}
+
+export interface FeeInfoQueryResult {
+    liquidityFee: BN; // lamports
+    swapFee: BN; // lamports
+    totalSolFeesCollected: BN; // lamports
+    pendingSolFees: BN; // lamports awaiting consolidation
+    logs: string[];
+}
+
+export interface PoolSolBalanceQueryResult {
+    solBalance: BN; // lamports
+    logs: string[];
+}
+
+export interface ConsolidationStatusQueryResult {
+    eligiblePools: number;
+    totalPendingFees: BN; // lamports
+    logs: string[];
+}
+
+export interface PoolStatePDAQueryResult {
+    poolStatePDA: PublicKey;
+    logs: string[];
+}
+
+export interface TokenVaultPDAsQueryResult {
+    tokenAVault: PublicKey;
+    tokenBVault: PublicKey;
+    logs: string[];
+}
+
+export interface UpdatePoolFeesParams {
+    authority: PublicKey; // Program upgrade authority
+    poolStatePDA: PublicKey;
+    updateFlags: number; // FEE_UPDATE_FLAGS
+    newLiquidityFee: BN; // lamports (ignored unless the liquidity flag is set)
+    newSwapFee: BN; // lamports (ignored unless the swap flag is set)
+}
+
+export interface SetSwapOwnerOnlyParams {
+    authority: PublicKey; // Program upgrade authority
+    poolStatePDA: PublicKey;
+    enableRestriction: boolean;
+    designatedOwner: PublicKey; // Entity allowed to swap while restricted
+}
+
+export interface WithdrawTreasuryFeesParams {
+    authority: PublicKey; // Program upgrade authority
+    destination: PublicKey; // Account to receive withdrawn SOL
+    amount: BN; // lamports (0 = withdraw all available)
+}
+
 export type PauseReason = 
     | 'emergency_stop'
     | 'maintenance' 
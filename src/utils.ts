@@ -1,7 +1,8 @@
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
-import { PROGRAM_ID, SEEDS } from './constants';
-import { TokenInfo } from './types';
+import { PROGRAM_ID, SEEDS, BPF_LOADER_UPGRADEABLE_PROGRAM_ID } from './constants';
+import { DecimalInput, RoundingMode, TokenInfo } from './types';
+import { formatDecimalAmount, parseDecimalAmount } from './decimal';
 
 /**
  * Utility functions for Fixed Ratio Trading operations
@@ -9,24 +10,24 @@ import { TokenInfo } from './types';
 
 /**
  * Convert a display amount to basis points (smallest unit)
- * @param amount - The amount in display units (e.g., 1.5 for 1.5 SOL)
+ * @param amount - The amount in display units (e.g., 1.5 or "1.5" for 1.5 SOL)
  * @param decimals - The number of decimals for the token
+ * @param rounding - Rounding for digits beyond the token's decimals (default 'down')
  * @returns BN representation in basis points
  */
-export function toBasisPoints(amount: number, decimals: number): BN {
-    const multiplier = Math.pow(10, decimals);
-    return new BN(Math.floor(amount * multiplier));
+export function toBasisPoints(amount: DecimalInput, decimals: number, rounding: RoundingMode = 'down'): BN {
+    return parseDecimalAmount(amount, decimals, rounding);
 }
 
 /**
  * Convert basis points to display amount
+ * Use formatDecimalAmount() for an exact string; the number is the nearest double
  * @param basisPoints - Amount in basis points
  * @param decimals - Number of decimals for the token
  * @returns Display amount as number
  */
 export function fromBasisPoints(basisPoints: BN, decimals: number): number {
-    const divisor = Math.pow(10, decimals);
-    return basisPoints.toNumber() / divisor;
+    return Number(formatDecimalAmount(basisPoints, decimals));
 }
 
 /**
@@ -39,7 +40,8 @@ export function normalizeTokenOrder(
     tokenAMint: PublicKey, 
     tokenBMint: PublicKey
 ): [PublicKey, PublicKey] {
-    return tokenAMint.toBuffer() < tokenBMint.toBuffer() 
+    // Byte-wise comparison, matching Rust's Pubkey ordering
+    return Buffer.compare(tokenAMint.toBuffer(), tokenBMint.toBuffer()) < 0
         ? [tokenAMint, tokenBMint]
         : [tokenBMint, tokenAMint];
 }
@@ -94,6 +96,19 @@ export function derivePoolStatePDA(
     );
 }
 
+/**
+ * Derive the ProgramData account of the upgradeable program
+ * The contract reads the upgrade authority from it for authority checks
+ * @param programId - Program ID (defaults to PROGRAM_ID)
+ * @returns [PublicKey, bump]
+ */
+export function deriveProgramDataAddress(programId: PublicKey = PROGRAM_ID): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync(
+        [programId.toBuffer()],
+        BPF_LOADER_UPGRADEABLE_PROGRAM_ID
+    );
+}
+
 /**
  * Derive token vault PDAs for a pool
  * @param poolStatePDA - The pool state PDA
@@ -136,6 +151,38 @@ export function deriveLPTokenMintPDAs(poolStatePDA: PublicKey): {
     };
 }
 
+/**
+ * Resolve the vault and LP mint accounts for one side of a pool
+ * The side is chosen from the pool's normalized mint order
+ * @param poolStatePDA - The pool state PDA
+ * @param tokenMint - Mint of the side being resolved
+ * @param otherTokenMint - The pool's other mint
+ * @returns Object with the side's vault, the paired vault and the side's LP mint
+ */
+export function derivePoolSideAccounts(
+    poolStatePDA: PublicKey,
+    tokenMint: PublicKey,
+    otherTokenMint: PublicKey
+): {
+    isTokenA: boolean;
+    tokenVault: PublicKey;
+    otherTokenVault: PublicKey;
+    lpTokenMint: PublicKey;
+} {
+    const [mintA] = normalizeTokenOrder(tokenMint, otherTokenMint);
+    const isTokenA = mintA.equals(tokenMint);
+
+    const { tokenAVault: [tokenAVault], tokenBVault: [tokenBVault] } = deriveTokenVaultPDAs(poolStatePDA);
+    const { lpTokenAMint: [lpTokenAMint], lpTokenBMint: [lpTokenBMint] } = deriveLPTokenMintPDAs(poolStatePDA);
+
+    return {
+        isTokenA,
+        tokenVault: isTokenA ? tokenAVault : tokenBVault,
+        otherTokenVault: isTokenA ? tokenBVault : tokenAVault,
+        lpTokenMint: isTokenA ? lpTokenAMint : lpTokenBMint,
+    };
+}
+
 /**
  * Calculate the required amount of the other token for liquidity provision
  * @param depositAmount - Amount of the deposit token
@@ -177,44 +224,6 @@ export function applySlippage(expectedAmount: BN, slippageTolerance: number): BN
     return expectedAmount.mul(new BN(tolerance)).div(new BN(10000));
 }
 
-/**
- * Parse error code from transaction logs
- * @param logs - Transaction logs
- * @returns Error code or null if not found
- */
-export function parseErrorCode(logs: string[]): number | null {
-    for (const log of logs) {
-        const match = log.match(/Custom program error: 0x([0-9a-fA-F]+)/);
-        if (match) {
-            return parseInt(match[1], 16);
-        }
-    }
-    return null;
-}
-
-/**
- * Format error message from error code
- * @param errorCode - The error code
- * @returns Human-readable error message
- */
-export function formatError(errorCode: number): string {
-    const errorMap: Record<number, string> = {
-        6006: "System is paused",
-        6007: "Pool is paused", 
-        6008: "Slippage tolerance exceeded",
-        6009: "Insufficient balance",
-        6010: "Invalid amount",
-        6011: "Invalid ratio",
-        6012: "Pool already exists",
-        6013: "Pool not found",
-        6014: "Unauthorized",
-        6015: "Invalid token mint",
-        6016: "Invalid account",
-    };
-    
-    return errorMap[errorCode] || `Unknown error code: ${errorCode}`;
-}
-
 /**
  * Validate that a token amount is positive and within reasonable bounds
  * @param amount - The amount to validate
@@ -246,6 +255,60 @@ export function encodeMessage(message: string, maxLength: number = 200): Buffer
     return Buffer.concat([lengthBuffer, messageBuffer]);
 }
 
+/**
+ * Decode a length-prefixed message written by encodeMessage
+ * @param data - Buffer containing the message
+ * @param offset - Offset of the u32 length prefix
+ * @returns Decoded message and the number of bytes consumed
+ */
+export function decodeMessage(data: Buffer, offset: number = 0): { message: string; bytesRead: number } {
+    if (data.length < offset + 4) {
+        throw new Error('Invalid message: missing length prefix');
+    }
+    const length = data.readUInt32LE(offset);
+    if (data.length < offset + 4 + length) {
+        throw new Error(`Invalid message: expected ${length} bytes, got ${data.length - offset - 4}`);
+    }
+
+    return {
+        message: data.subarray(offset + 4, offset + 4 + length).toString('utf8'),
+        bytesRead: 4 + length,
+    };
+}
+
+/**
+ * Decode a base58 string (as used by compiled instruction data)
+ * @param value - Base58 string
+ * @returns Decoded bytes
+ */
+export function decodeBase58(value: string): Buffer {
+    const alphabet = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+    const bytes: number[] = [];
+
+    for (const char of value) {
+        let carry = alphabet.indexOf(char);
+        if (carry < 0) {
+            throw new Error(`Invalid base58 character: ${char}`);
+        }
+        for (let i = 0; i < bytes.length; i++) {
+            carry += bytes[i] * 58;
+            bytes[i] = carry & 0xff;
+            carry >>= 8;
+        }
+        while (carry > 0) {
+            bytes.push(carry & 0xff);
+            carry >>= 8;
+        }
+    }
+
+    // Each leading '1' encodes a leading zero byte
+    for (let i = 0; i < value.length && value[i] === '1'; i++) {
+        bytes.push(0);
+    }
+
+    return Buffer.from(bytes.reverse());
+}
+
 /**
  * Check if two PublicKeys are equal
  * @param a - First PublicKey
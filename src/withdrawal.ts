@@ -0,0 +1,167 @@
+import { Connection, SYSVAR_CLOCK_PUBKEY } from '@solana/web3.js';
+import BN from 'bn.js';
+import { TREASURY_WITHDRAWAL } from './constants';
+import { getProtocolState } from './accounts/protocol';
+import { MainTreasuryState, TreasuryWithdrawalStatus } from './types';
+
+/**
+ * Main treasury withdrawal rate limits and system restart penalty
+ */
+
+// Clock sysvar layout: slot, epoch start timestamp, epoch, leader schedule epoch, unix timestamp
+const CLOCK_UNIX_TIMESTAMP_OFFSET = 32;
+
+/**
+ * Calculate the treasury's per-window withdrawal limit
+ * Starts at 10 SOL per hour and grows 10x per tier until the withdrawable balance could be drained within 48 hours
+ * @param availableBalance - Treasury balance available for withdrawal (lamports above the rent-exempt minimum)
+ * @returns Hourly limit (lamports)
+ */
+export function calculateHourlyWithdrawalLimit(availableBalance: BN): BN {
+    const multiplier = new BN(TREASURY_WITHDRAWAL.RATE_SCALING_MULTIPLIER);
+    let limit = TREASURY_WITHDRAWAL.BASE_HOURLY_RATE;
+
+    while (limit.muln(TREASURY_WITHDRAWAL.MAX_DRAIN_TIME_HOURS).lt(availableBalance)) {
+        limit = limit.mul(multiplier);
+    }
+
+    return limit;
+}
+
+/**
+ * Calculate how much can be withdrawn from the main treasury at a cluster time, and when
+ * Unpausing the system sets the last withdrawal time 71 hours into the future. The penalty ends at that
+ * time, and the rate limit window then runs from it like after any withdrawal, so the first withdrawal
+ * after an unpause is allowed 72 hours later
+ * @param treasuryState - Decoded main treasury state
+ * @param now - Current cluster Unix time (seconds)
+ * @returns TreasuryWithdrawalStatus
+ */
+export function calculateTreasuryWithdrawalStatus(
+    treasuryState: MainTreasuryState,
+    now: number | BN
+): TreasuryWithdrawalStatus {
+    const currentTime = new BN(now);
+    const availableAboveRent = treasuryState.availableForWithdrawal;
+    const hourlyLimit = calculateHourlyWithdrawalLimit(availableAboveRent);
+
+    const lastWithdrawal = treasuryState.lastWithdrawalTimestamp;
+    const windowEnd = lastWithdrawal.addn(TREASURY_WITHDRAWAL.RATE_LIMIT_WINDOW_SECONDS);
+    const penaltyActive = lastWithdrawal.gt(currentTime);
+    const rateLimited = windowEnd.gt(currentTime);
+
+    const status = {
+        hourlyLimit,
+        availableAboveRent,
+        penaltyEndsAt: penaltyActive ? lastWithdrawal : null,
+    };
+
+    if (rateLimited) {
+        const secondsUntilAllowed = windowEnd.sub(currentTime).toNumber();
+        return {
+            ...status,
+            availableNow: new BN(0),
+            nextAllowedTimestamp: windowEnd,
+            secondsUntilAllowed,
+            blockedReason: penaltyActive ? 'restartPenalty' : 'rateLimited',
+            message: penaltyActive
+                ? `System restart penalty active until ${lastWithdrawal.toString()}, followed by the rate limit window; `
+                    + `withdrawals allowed in ${formatDuration(secondsUntilAllowed)}`
+                : `Rate limit window active; next withdrawal allowed in ${formatDuration(secondsUntilAllowed)}`,
+        };
+    }
+
+    if (availableAboveRent.isZero()) {
+        return {
+            ...status,
+            availableNow: new BN(0),
+            nextAllowedTimestamp: currentTime,
+            secondsUntilAllowed: 0,
+            blockedReason: 'rentExemptFloor',
+            message: "Treasury balance is at its rent-exempt minimum",
+        };
+    }
+
+    return {
+        ...status,
+        availableNow: BN.min(hourlyLimit, availableAboveRent),
+        nextAllowedTimestamp: currentTime,
+        secondsUntilAllowed: 0,
+        blockedReason: null,
+        message: "Withdrawal allowed",
+    };
+}
+
+/**
+ * Validate a treasury withdrawal amount against the rate limit, penalty and rent-exempt floor
+ * @param treasuryState - Decoded main treasury state
+ * @param amount - Amount to withdraw (lamports, 0 = all available)
+ * @param now - Current cluster Unix time (seconds)
+ * @returns Validation result
+ */
+export function validateTreasuryWithdrawal(
+    treasuryState: MainTreasuryState,
+    amount: BN,
+    now: number | BN
+): {
+    isValid: boolean;
+    errors: string[];
+} {
+    const errors: string[] = [];
+    const status = calculateTreasuryWithdrawalStatus(treasuryState, now);
+
+    if (status.blockedReason) {
+        errors.push(status.message);
+    } else {
+        // Zero withdraws everything above the rent-exempt minimum
+        const requested = amount.isZero() ? status.availableAboveRent : amount;
+        if (requested.gt(status.availableAboveRent)) {
+            errors.push("Withdrawal amount exceeds the balance above the rent-exempt minimum");
+        }
+        if (requested.gt(status.hourlyLimit)) {
+            errors.push(`Withdrawal amount exceeds the hourly limit of ${status.hourlyLimit.toString()} lamports`);
+        }
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+    };
+}
+
+/**
+ * Fetch the treasury state and cluster time and calculate the withdrawal status
+ * @param connection - Solana connection
+ * @returns Promise<TreasuryWithdrawalStatus>
+ */
+export async function getTreasuryWithdrawalStatus(connection: Connection): Promise<TreasuryWithdrawalStatus> {
+    const [{ mainTreasuryState }, now] = await Promise.all([
+        getProtocolState(connection),
+        getClusterTime(connection),
+    ]);
+    if (!mainTreasuryState) {
+        throw new Error("Main treasury state not found");
+    }
+
+    return calculateTreasuryWithdrawalStatus(mainTreasuryState, now);
+}
+
+/**
+ * Read the cluster's Unix time from the Clock sysvar (the time the contract checks against)
+ * @param connection - Solana connection
+ * @returns Promise<BN> - Unix time (seconds)
+ */
+export async function getClusterTime(connection: Connection): Promise<BN> {
+    const clock = await connection.getAccountInfo(SYSVAR_CLOCK_PUBKEY);
+    if (!clock) {
+        throw new Error("Clock sysvar not found");
+    }
+    return new BN(clock.data.readBigInt64LE(CLOCK_UNIX_TIMESTAMP_OFFSET).toString());
+}
+
+function formatDuration(seconds: number): string {
+    const totalMinutes = Math.ceil(seconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
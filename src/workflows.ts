@@ -0,0 +1,551 @@
+import {
+    Connection,
+    ParsedTransactionWithMeta,
+    PublicKey,
+    TransactionInstruction,
+    VersionedTransaction,
+} from '@solana/web3.js';
+import {
+    NATIVE_MINT,
+    createAssociatedTokenAccountIdempotentInstruction,
+    getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import BN from 'bn.js';
+import { toBasisPoints } from './utils';
+import { PoolStore } from './store';
+import { prepareComputeBudget } from './compute';
+import { buildVersionedTransaction } from './lookup';
+import { sendAndConfirm, sendAndConfirmNonceTransaction } from './submit';
+import { buildNonceTransaction } from './nonce';
+import { deserializeSignedTransaction, serializeUnsignedTransaction, toFrtSigner } from './signer';
+import { addNativeSolHandling, isNativeMint, SOL_DECIMALS } from './wsol';
+import { getPoolTokenPrograms, getSwapTransferFees } from './token';
+import { parseActivityFromTransaction } from './activity';
+import { toFrtError } from './errors';
+import { createSwapInstruction, quoteSwap } from './instructions/swap';
+import {
+    createDepositInstruction,
+    createWithdrawInstruction,
+    estimateLPTokensFromDeposit,
+    estimateTokensFromWithdraw,
+} from './instructions/liquidity';
+import { createDonateSolInstruction, validateDonationParams } from './instructions/treasury';
+import {
+    ActivityType,
+    AmountInput,
+    DecimalInput,
+    ConsolidationBatchOutcome,
+    ConsolidationPlan,
+    DepositExecutionParams,
+    DonationExecutionParams,
+    ExecutionOptions,
+    ExecutionOutcome,
+    ExecutionResult,
+    PoolSnapshot,
+    SignerInput,
+    SwapExecutionParams,
+    UnsignedExecution,
+    WithdrawExecutionParams,
+} from './types';
+
+/**
+ * Send workflows - fetch the pool, prepare token accounts, simulate, sign, send and confirm
+ * Offline signers get the unsigned transaction back and send it later with submitSignedTransaction()
+ */
+
+// Instructions and expected outcome of a workflow, before budgeting and signing
+interface WorkflowPlan {
+    type: ActivityType;
+    instructions: TransactionInstruction[];
+    estimate: UnsignedExecution['estimate'];
+    accounts: PublicKey[]; // Cached accounts the transaction changes
+}
+
+/**
+ * Swap tokens in a pool
+ * Creates the output associated token account if needed and wraps/unwraps SOL for wSOL pools
+ * @param connection - Solana connection
+ * @param signer - User paying fees and signing the swap (keypair, wallet or offline signer)
+ * @param params - Swap parameters
+ * @param options - Send options
+ * @param store - Pool store to read the pool from (default: a fresh store)
+ * @returns Promise<ExecutionResult> - Signature and realized amounts (UnsignedExecution for offline signers)
+ */
+export async function executeSwap<S extends SignerInput>(
+    connection: Connection,
+    signer: S,
+    params: SwapExecutionParams,
+    options: ExecutionOptions = {},
+    store: PoolStore = new PoolStore(connection)
+): Promise<ExecutionOutcome<S>> {
+    const pool = await fetchPool(store, params.poolStatePDA);
+    const { tokenProgram, ...side } = await resolvePoolSide(connection, pool, params.inputTokenMint);
+    const amountIn = toAmount(params.amountIn, side.mintInfo.decimals);
+
+    const transferFees = await getSwapTransferFees(connection, side.mintInfo, side.otherMintInfo);
+    const quote = quoteSwap(pool, params.inputTokenMint, amountIn, transferFees);
+    if (!quote.isValid) {
+        throw new Error(`Invalid swap: ${quote.errors.join(', ')}`);
+    }
+
+    const owner = signer.publicKey;
+    const userInputAccount = getAssociatedTokenAddressSync(params.inputTokenMint, owner, false, tokenProgram);
+    const userOutputAccount = getAssociatedTokenAddressSync(quote.outputTokenMint, owner, false, tokenProgram);
+
+    const instructions = [
+        createAssociatedTokenAccountIdempotentInstruction(
+            owner,
+            userOutputAccount,
+            owner,
+            quote.outputTokenMint,
+            tokenProgram
+        ),
+        createSwapInstruction({
+            poolStatePDA: params.poolStatePDA,
+            amountIn,
+            expectedAmountOut: quote.amountOut,
+            inputTokenMint: params.inputTokenMint,
+            outputTokenMint: quote.outputTokenMint,
+            userAuthority: owner,
+            userInputAccount,
+            userOutputAccount,
+            slippageTolerance: params.slippageTolerance,
+            tokenProgram,
+        }, options.contractVersion),
+    ];
+    const transactionInstructions = addNativeSolHandling(owner, instructions, {
+        inputMint: params.inputTokenMint,
+        inputAmount: amountIn,
+        outputMint: quote.outputTokenMint,
+        wsolAccountExists: await wsolAccountExists(connection, owner, [params.inputTokenMint, quote.outputTokenMint]),
+        unwrap: !options.keepWrappedSol,
+    });
+
+    return completeWorkflow(connection, signer, {
+        type: 'swap',
+        instructions: transactionInstructions,
+        estimate: { tokenMint: params.inputTokenMint, amountIn, amountOut: quote.amountOut },
+        accounts: [params.poolStatePDA, pool.poolState.tokenAVault, pool.poolState.tokenBVault],
+    }, options, store);
+}
+
+/**
+ * Deposit liquidity into a pool
+ * Creates the LP token associated token account if needed and wraps SOL deposits
+ * @param connection - Solana connection
+ * @param signer - User paying fees and signing the deposit (keypair, wallet or offline signer)
+ * @param params - Deposit parameters
+ * @param options - Send options
+ * @param store - Pool store to read the pool from (default: a fresh store)
+ * @returns Promise<ExecutionResult> - Signature, deposited amount and LP tokens minted (UnsignedExecution for offline signers)
+ */
+export async function executeDeposit<S extends SignerInput>(
+    connection: Connection,
+    signer: S,
+    params: DepositExecutionParams,
+    options: ExecutionOptions = {},
+    store: PoolStore = new PoolStore(connection)
+): Promise<ExecutionOutcome<S>> {
+    const pool = await fetchPool(store, params.poolStatePDA);
+    const { tokenProgram, ...side } = await resolvePoolSide(connection, pool, params.depositTokenMint);
+
+    if (pool.poolState.liquidityPaused) {
+        throw new Error("Pool liquidity operations are paused");
+    }
+
+    const amount = toAmount(params.amount, side.mintInfo.decimals);
+    if (amount.lte(new BN(0))) {
+        throw new Error("Deposit amount must be positive");
+    }
+
+    const owner = signer.publicKey;
+    const userTokenAccount = getAssociatedTokenAddressSync(params.depositTokenMint, owner, false, tokenProgram);
+    const userLpAccount = getAssociatedTokenAddressSync(side.lpTokenMint, owner, false, tokenProgram);
+
+    const instructions = [
+        createAssociatedTokenAccountIdempotentInstruction(owner, userLpAccount, owner, side.lpTokenMint, tokenProgram),
+        createDepositInstruction({
+            poolStatePDA: params.poolStatePDA,
+            depositAmount: amount,
+            depositTokenMint: params.depositTokenMint,
+            otherTokenMint: side.otherTokenMint,
+            userAuthority: owner,
+            userTokenAccount,
+            userLpAccount,
+            tokenProgram,
+        }, options.contractVersion),
+    ];
+    const transactionInstructions = addNativeSolHandling(owner, instructions, {
+        inputMint: params.depositTokenMint,
+        inputAmount: amount,
+        wsolAccountExists: await wsolAccountExists(connection, owner, [params.depositTokenMint]),
+        unwrap: !options.keepWrappedSol,
+    });
+
+    return completeWorkflow(connection, signer, {
+        type: 'deposit',
+        instructions: transactionInstructions,
+        estimate: {
+            tokenMint: params.depositTokenMint,
+            amountIn: amount,
+            amountOut: estimateLPTokensFromDeposit(amount, side.vaultBalance, side.lpSupply),
+        },
+        accounts: [params.poolStatePDA, side.tokenVault, side.lpTokenMint],
+    }, options, store);
+}
+
+/**
+ * Withdraw liquidity from a pool by burning LP tokens
+ * Creates the receiving associated token account if needed and unwraps SOL withdrawals
+ * @param connection - Solana connection
+ * @param signer - LP token holder paying fees and signing the withdrawal (keypair, wallet or offline signer)
+ * @param params - Withdrawal parameters
+ * @param options - Send options
+ * @param store - Pool store to read the pool from (default: a fresh store)
+ * @returns Promise<ExecutionResult> - Signature, LP tokens burned and tokens received (UnsignedExecution for offline signers)
+ */
+export async function executeWithdraw<S extends SignerInput>(
+    connection: Connection,
+    signer: S,
+    params: WithdrawExecutionParams,
+    options: ExecutionOptions = {},
+    store: PoolStore = new PoolStore(connection)
+): Promise<ExecutionOutcome<S>> {
+    const pool = await fetchPool(store, params.poolStatePDA);
+    const { tokenProgram, ...side } = await resolvePoolSide(connection, pool, params.withdrawTokenMint);
+
+    if (pool.poolState.liquidityPaused) {
+        throw new Error("Pool liquidity operations are paused");
+    }
+
+    const lpAmount = toAmount(params.lpAmount, side.lpDecimals);
+    if (lpAmount.lte(new BN(0))) {
+        throw new Error("Withdrawal amount must be positive");
+    }
+
+    const owner = signer.publicKey;
+    const userTokenAccount = getAssociatedTokenAddressSync(params.withdrawTokenMint, owner, false, tokenProgram);
+    const userLpAccount = getAssociatedTokenAddressSync(side.lpTokenMint, owner, false, tokenProgram);
+
+    const instructions = [
+        createAssociatedTokenAccountIdempotentInstruction(
+            owner,
+            userTokenAccount,
+            owner,
+            params.withdrawTokenMint,
+            tokenProgram
+        ),
+        createWithdrawInstruction({
+            poolStatePDA: params.poolStatePDA,
+            withdrawAmount: lpAmount,
+            withdrawTokenMint: params.withdrawTokenMint,
+            otherTokenMint: side.otherTokenMint,
+            userAuthority: owner,
+            userLpAccount,
+            userTokenAccount,
+            tokenProgram,
+        }, options.contractVersion),
+    ];
+    const transactionInstructions = addNativeSolHandling(owner, instructions, {
+        outputMint: params.withdrawTokenMint,
+        wsolAccountExists: await wsolAccountExists(connection, owner, [params.withdrawTokenMint]),
+        unwrap: !options.keepWrappedSol,
+    });
+
+    return completeWorkflow(connection, signer, {
+        type: 'withdraw',
+        instructions: transactionInstructions,
+        estimate: {
+            tokenMint: params.withdrawTokenMint,
+            amountIn: lpAmount,
+            amountOut: estimateTokensFromWithdraw(lpAmount, side.vaultBalance, side.lpSupply),
+        },
+        accounts: [params.poolStatePDA, side.tokenVault, side.lpTokenMint],
+    }, options, store);
+}
+
+/**
+ * Donate SOL to the protocol treasury
+ * @param connection - Solana connection
+ * @param signer - Donor paying fees and signing the donation (keypair, wallet or offline signer)
+ * @param params - Donation parameters
+ * @param options - Send options
+ * @returns Promise<ExecutionResult> - Signature and donated lamports (UnsignedExecution for offline signers)
+ */
+export async function executeDonation<S extends SignerInput>(
+    connection: Connection,
+    signer: S,
+    params: DonationExecutionParams,
+    options: ExecutionOptions = {}
+): Promise<ExecutionOutcome<S>> {
+    const amount = toAmount(params.amount, SOL_DECIMALS);
+
+    const donation = { donor: signer.publicKey, amount, message: params.message };
+    const validation = validateDonationParams(donation);
+    if (!validation.isValid) {
+        throw new Error(`Invalid donation: ${validation.errors.join(', ')}`);
+    }
+
+    return completeWorkflow(connection, signer, {
+        type: 'donation',
+        instructions: [createDonateSolInstruction(donation, options.contractVersion)],
+        estimate: { tokenMint: null, amountIn: amount, amountOut: new BN(0) },
+        accounts: [],
+    }, options);
+}
+
+/**
+ * Send the batches of a consolidation plan, one transaction per batch
+ * Each batch's compute unit limit comes from the plan unless the options set one
+ * @param connection - Solana connection
+ * @param signer - Fee payer (keypair, wallet or offline signer); consolidation needs no authority
+ * @param plan - Plan from planConsolidation()
+ * @param options - Send options
+ * @param store - Pool store whose cached pools are invalidated (optional)
+ * @returns Promise<ConsolidationBatchOutcome[]> - Result or error for each batch, in order
+ */
+export async function executeConsolidation<S extends SignerInput>(
+    connection: Connection,
+    signer: S,
+    plan: ConsolidationPlan,
+    options: ExecutionOptions = {},
+    store?: PoolStore
+): Promise<ConsolidationBatchOutcome<S>[]> {
+    if (options.nonce && plan.batches.length > 1) {
+        throw new Error(`A durable nonce covers a single transaction; the plan has ${plan.batches.length} batches`);
+    }
+
+    const outcomes: ConsolidationBatchOutcome<S>[] = [];
+
+    for (const batch of plan.batches) {
+        const batchOptions: ExecutionOptions = {
+            ...options,
+            computeBudget: { computeUnits: batch.computeUnits, ...options.computeBudget },
+        };
+
+        try {
+            const outcome = await completeWorkflow(connection, signer, {
+                type: 'consolidation',
+                instructions: [batch.instruction],
+                estimate: { tokenMint: null, amountIn: new BN(0), amountOut: batch.totalAvailable },
+                accounts: batch.pools.map(pool => pool.poolStatePDA),
+            }, batchOptions, store);
+            outcomes.push({ batch, outcome });
+        } catch (error) {
+            outcomes.push({ batch, error: toFrtError(error) });
+        }
+    }
+
+    return outcomes;
+}
+
+/**
+ * Send a workflow transaction that was built for an offline signer and signed elsewhere
+ * The signed transaction must carry exactly the message that was handed out
+ * @param connection - Solana connection
+ * @param unsigned - Unsigned execution returned by the workflow
+ * @param signedTransaction - Signed transaction (base64)
+ * @param options - Send options
+ * @param store - Pool store whose cached accounts are invalidated (optional)
+ * @returns Promise<ExecutionResult> - Signature and realized amounts
+ */
+export async function submitSignedTransaction(
+    connection: Connection,
+    unsigned: UnsignedExecution,
+    signedTransaction: string,
+    options: ExecutionOptions = {},
+    store?: PoolStore
+): Promise<ExecutionResult> {
+    const transaction = deserializeSignedTransaction(signedTransaction);
+    const expected = VersionedTransaction.deserialize(Buffer.from(unsigned.transaction, 'base64'));
+    if (!Buffer.from(transaction.message.serialize()).equals(Buffer.from(expected.message.serialize()))) {
+        throw new Error("Signed transaction does not match the unsigned transaction");
+    }
+
+    const signature = await sendWorkflowTransaction(connection, transaction, unsigned, options);
+    store?.invalidate(unsigned.accounts);
+
+    return readExecutionResult(connection, signature, unsigned, options);
+}
+
+async function fetchPool(store: PoolStore, poolStatePDA: PublicKey): Promise<PoolSnapshot> {
+    const pool = await store.getPool(poolStatePDA);
+    if (!pool) {
+        throw new Error(`Pool not found: ${poolStatePDA.toBase58()}`);
+    }
+    return pool;
+}
+
+// Token program, mint details, vault, LP mint and balances for the pool side of a token mint
+// Rejects mints with unsupported Token-2022 extensions before anything is sent
+async function resolvePoolSide(connection: Connection, pool: PoolSnapshot, tokenMint: PublicKey) {
+    const { poolState } = pool;
+    const isTokenA = tokenMint.equals(poolState.tokenAMint);
+
+    if (!isTokenA && !tokenMint.equals(poolState.tokenBMint)) {
+        throw new Error("Token mint is not part of this pool");
+    }
+
+    const { tokenProgram, tokenA, tokenB } = await getPoolTokenPrograms(
+        connection,
+        poolState.tokenAMint,
+        poolState.tokenBMint
+    );
+
+    const vault = isTokenA ? pool.tokenAVault : pool.tokenBVault;
+    const lpMint = isTokenA ? pool.lpTokenAMint : pool.lpTokenBMint;
+    const mintInfo = isTokenA ? tokenA : tokenB;
+
+    return {
+        tokenProgram,
+        mintInfo,
+        otherMintInfo: isTokenA ? tokenB : tokenA,
+        otherTokenMint: isTokenA ? poolState.tokenBMint : poolState.tokenAMint,
+        tokenVault: isTokenA ? poolState.tokenAVault : poolState.tokenBVault,
+        lpTokenMint: isTokenA ? poolState.lpTokenAMint : poolState.lpTokenBMint,
+        lpDecimals: lpMint ? lpMint.decimals : mintInfo.decimals,
+        vaultBalance: new BN(vault ? vault.amount.toString() : 0),
+        lpSupply: new BN(lpMint ? lpMint.supply.toString() : 0),
+    };
+}
+
+// Only read for wSOL operations: an existing wSOL account is left open rather than closed to unwrap
+async function wsolAccountExists(connection: Connection, owner: PublicKey, mints: PublicKey[]): Promise<boolean> {
+    if (!mints.some(isNativeMint)) {
+        return false;
+    }
+    const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+    return (await connection.getAccountInfo(wsolAccount)) !== null;
+}
+
+// Display amounts are converted with the mint's decimals
+function toAmount(amount: AmountInput, decimals: number): BN {
+    return BN.isBN(amount) ? amount as BN : toBasisPoints(amount as DecimalInput, decimals);
+}
+
+// Budget and build the transaction (on a recent blockhash or the durable nonce in options), then
+// either hand it out unsigned (offline signers) or sign, send and confirm it
+async function completeWorkflow<S extends SignerInput>(
+    connection: Connection,
+    signerInput: S,
+    plan: WorkflowPlan,
+    options: ExecutionOptions,
+    store?: PoolStore
+): Promise<ExecutionOutcome<S>> {
+    const signer = toFrtSigner(signerInput);
+    const commitment = options.commitment || 'confirmed';
+    const budget = await prepareComputeBudget(
+        connection,
+        plan.instructions,
+        signer.publicKey,
+        options.computeBudget,
+        options.lookupTables
+    );
+    const instructions = [...budget.instructions, ...plan.instructions];
+
+    let transaction: VersionedTransaction;
+    let blockhash: string;
+    let lastValidBlockHeight: number | null = null;
+    if (options.nonce) {
+        // Only the fee payer signs here, so it must also be the nonce authority
+        if (signer.kind !== 'offline' && !options.nonce.authority.equals(signer.publicKey)) {
+            throw new Error("Nonce authority must be the signer");
+        }
+        transaction = buildNonceTransaction(signer.publicKey, instructions, options.nonce, options.lookupTables);
+        blockhash = options.nonce.nonce;
+    } else {
+        ({ blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment));
+        transaction = buildVersionedTransaction(signer.publicKey, instructions, blockhash, options.lookupTables);
+    }
+
+    const unsigned: UnsignedExecution = {
+        transaction: serializeUnsignedTransaction(transaction),
+        signer: signer.publicKey,
+        type: plan.type,
+        blockhash,
+        lastValidBlockHeight,
+        nonceAccount: options.nonce ? options.nonce.nonceAccount : null,
+        estimate: plan.estimate,
+        priorityFee: budget.priorityFee,
+        accounts: plan.accounts,
+    };
+    if (signer.kind === 'offline') {
+        return unsigned as ExecutionOutcome<S>;
+    }
+
+    const [signed] = await signer.signTransactions([transaction]);
+    const signature = await sendWorkflowTransaction(connection, signed, unsigned, options);
+    store?.invalidate(plan.accounts);
+
+    return await readExecutionResult(connection, signature, unsigned, options) as ExecutionOutcome<S>;
+}
+
+// Simulate, send and confirm a signed transaction, rebroadcasting until it lands or expires (its
+// blockhash passes, or its nonce is advanced); program failures surface as FrtError and expiry as FrtExpiredError
+async function sendWorkflowTransaction(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    { lastValidBlockHeight, nonceAccount }: UnsignedExecution,
+    options: ExecutionOptions
+): Promise<string> {
+    const submitOptions = {
+        commitment: options.commitment,
+        skipSimulation: options.skipSimulation,
+        resendIntervalMs: options.resendIntervalMs,
+    };
+    if (nonceAccount) {
+        return sendAndConfirmNonceTransaction(connection, transaction, nonceAccount, submitOptions);
+    }
+    if (lastValidBlockHeight === null) {
+        throw new Error("Unsigned execution has neither a nonce account nor a last valid block height");
+    }
+    return sendAndConfirm(connection, transaction, lastValidBlockHeight, submitOptions);
+}
+
+// Read realized amounts from the confirmed transaction, falling back to the estimates
+async function readExecutionResult(
+    connection: Connection,
+    signature: string,
+    { type, estimate, priorityFee }: UnsignedExecution,
+    options: ExecutionOptions
+): Promise<ExecutionResult> {
+    // The transaction has landed, so a failed lookup falls back to the estimate instead of rejecting
+    let transaction: ParsedTransactionWithMeta | null = null;
+    try {
+        transaction = await connection.getParsedTransaction(signature, {
+            commitment: options.commitment === 'finalized' ? 'finalized' : 'confirmed',
+            maxSupportedTransactionVersion: 0,
+        });
+    } catch (error) {
+        // Reported as realized: false below
+    }
+
+    const entry = transaction
+        ? parseActivityFromTransaction(signature, transaction, options.contractVersion)
+            .find(candidate => candidate.type === type)
+        : undefined;
+
+    if (!transaction || !entry) {
+        return {
+            signature,
+            slot: transaction ? transaction.slot : null,
+            ...estimate,
+            networkFee: new BN(transaction?.meta?.fee || 0),
+            protocolFee: new BN(0),
+            priorityFee,
+            realized: false,
+        };
+    }
+
+    return {
+        signature,
+        slot: entry.slot,
+        tokenMint: entry.tokenMint,
+        amountIn: entry.amountIn,
+        amountOut: entry.amountOut,
+        networkFee: entry.networkFee,
+        protocolFee: entry.protocolFee,
+        priorityFee,
+        realized: true,
+    };
+}
@@ -0,0 +1,111 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+    NATIVE_MINT,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createCloseAccountInstruction,
+    createSyncNativeInstruction,
+    getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import BN from 'bn.js';
+
+/**
+ * Native SOL wrapping for pools paired against wrapped SOL (NATIVE_MINT)
+ */
+
+// Wrapped SOL uses the native lamport precision
+export const SOL_DECIMALS = 9;
+
+/**
+ * Check whether a mint is wrapped SOL
+ * @param mint - Token mint
+ * @returns True if the mint is NATIVE_MINT
+ */
+export function isNativeMint(mint: PublicKey): boolean {
+    return mint.equals(NATIVE_MINT);
+}
+
+/**
+ * Get the decimals to convert a display amount with
+ * Wrapped SOL always uses 9 decimals, so SOL amounts can be passed directly
+ * @param mint - Token mint
+ * @param decimals - Decimals of the token (ignored for wrapped SOL)
+ * @returns Decimals for the conversion
+ */
+export function getDisplayDecimals(mint: PublicKey, decimals: number): number {
+    return isNativeMint(mint) ? SOL_DECIMALS : decimals;
+}
+
+/**
+ * Create instructions that wrap SOL into the owner's wSOL associated token account
+ * Creates the account if needed, transfers the lamports and syncs the token balance
+ * @param owner - Owner of the SOL and the wSOL account
+ * @param lamports - Amount of SOL to wrap (lamports)
+ * @param payer - Account paying for the token account (default: owner)
+ * @returns TransactionInstruction[]
+ */
+export function createWrapSolInstructions(
+    owner: PublicKey,
+    lamports: BN,
+    payer: PublicKey = owner
+): TransactionInstruction[] {
+    const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+
+    return [
+        createAssociatedTokenAccountIdempotentInstruction(payer, wsolAccount, owner, NATIVE_MINT),
+        SystemProgram.transfer({
+            fromPubkey: owner,
+            toPubkey: wsolAccount,
+            lamports: BigInt(lamports.toString()),
+        }),
+        createSyncNativeInstruction(wsolAccount),
+    ];
+}
+
+/**
+ * Create an instruction that unwraps SOL by closing the owner's wSOL associated token account
+ * The whole wSOL balance and the account rent are returned to the owner
+ * @param owner - Owner of the wSOL account
+ * @returns TransactionInstruction
+ */
+export function createUnwrapSolInstruction(owner: PublicKey): TransactionInstruction {
+    const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+    return createCloseAccountInstruction(wsolAccount, owner, owner);
+}
+
+/**
+ * Surround pool instructions with wSOL wrapping and unwrapping when either side is NATIVE_MINT
+ * Unwrapping closes the wSOL account, so it is skipped when the account existed before the transaction;
+ * closing would also unwrap wSOL the owner already held
+ * @param owner - User signing the pool instructions
+ * @param instructions - Pool instructions (and any account setup they need)
+ * @param options - Mint spent and its amount, mint received, whether the wSOL account already exists
+ * and whether to unwrap afterwards
+ * @returns TransactionInstruction[] - Instructions with wrapping added where needed
+ */
+export function addNativeSolHandling(
+    owner: PublicKey,
+    instructions: TransactionInstruction[],
+    options: {
+        inputMint?: PublicKey;
+        inputAmount?: BN;
+        outputMint?: PublicKey;
+        wsolAccountExists: boolean; // The owner's wSOL associated token account exists before the transaction
+        unwrap?: boolean; // default true
+    }
+): TransactionInstruction[] {
+    const wrapsInput = options.inputMint !== undefined && isNativeMint(options.inputMint);
+    const receivesSol = options.outputMint !== undefined && isNativeMint(options.outputMint);
+
+    const result = [...instructions];
+    if (wrapsInput) {
+        if (!options.inputAmount) {
+            throw new Error("An input amount is required to wrap SOL");
+        }
+        result.unshift(...createWrapSolInstructions(owner, options.inputAmount));
+    }
+    if ((wrapsInput || receivesSol) && !options.wsolAccountExists && options.unwrap !== false) {
+        result.push(createUnwrapSolInstruction(owner));
+    }
+
+    return result;
+}
@@ -0,0 +1,82 @@
+// Node.js test: Exact decimal parsing and formatting of base unit amounts
+const assert = require('assert');
+const { BN, parseDecimalAmount, formatDecimalAmount } = require('../dist');
+
+function parse(amount, decimals, rounding) {
+  return parseDecimalAmount(amount, decimals, rounding).toString();
+}
+
+function testExactConversion() {
+  // 0.29 * 1e9 is 289999999.99999997 in floating point
+  assert.strictEqual(parse(0.29, 9), '290000000');
+  assert.strictEqual(parse('0.29', 9), '290000000');
+  assert.strictEqual(parse(1.5, 6), '1500000');
+  assert.strictEqual(parse('2.5e-3', 9), '2500000');
+  assert.strictEqual(parse(1e-7, 9), '100');
+  assert.strictEqual(parse('.5', 2), '50');
+  assert.strictEqual(parse('7', 0), '7');
+  assert.strictEqual(parse(BigInt(3), 9), '3000000000');
+  assert.strictEqual(parse(BigInt('-12345678901234567890'), 2), '-1234567890123456789000');
+}
+
+function testRoundingModes() {
+  assert.strictEqual(parse('1.2345', 2), '123');
+  assert.strictEqual(parse('1.2345', 2, 'down'), '123');
+  assert.strictEqual(parse('1.2301', 2, 'up'), '124');
+  assert.strictEqual(parse('1.235', 2, 'halfUp'), '124');
+  assert.strictEqual(parse('1.2349', 2, 'halfUp'), '123');
+  assert.strictEqual(parse('1.225', 2, 'halfEven'), '122');
+  assert.strictEqual(parse('1.235', 2, 'halfEven'), '124');
+  assert.strictEqual(parse('1.2251', 2, 'halfEven'), '123');
+  assert.strictEqual(parse('1.2300', 2, 'exact'), '123');
+  assert.throws(() => parse('1.234', 2, 'exact'), /more precision/);
+}
+
+function testNegatives() {
+  assert.strictEqual(parse('-1.5', 2), '-150');
+  // Rounding applies to the magnitude, so 'down' is toward zero
+  assert.strictEqual(parse('-1.239', 2, 'down'), '-123');
+  assert.strictEqual(parse('-1.231', 2, 'up'), '-124');
+  assert.strictEqual(formatDecimalAmount(new BN(-150), 2), '-1.5');
+  assert.strictEqual(formatDecimalAmount(new BN(-4), 2, { fractionDigits: 1 }), '0.0');
+}
+
+function testInvalidInput() {
+  assert.throws(() => parse('abc', 9), /Invalid decimal amount/);
+  assert.throws(() => parse('.', 9), /Invalid decimal amount/);
+  assert.throws(() => parse(NaN, 9), /Invalid decimal amount/);
+  assert.throws(() => parse('1', -1), /Invalid decimals/);
+  assert.throws(() => parse('1', 256), /Invalid decimals/);
+  assert.throws(() => parse('1', 1e9), /Invalid decimals/);
+  assert.throws(() => formatDecimalAmount(new BN(1), 1e9), /Invalid decimals/);
+  assert.strictEqual(parse('1', 255), '1' + '0'.repeat(255));
+  assert.throws(() => parse('1e1000000000', 9), /exponent out of range/);
+  assert.throws(() => parse('1e-110', 9), /exponent out of range/);
+  assert.strictEqual(parse('1e-109', 9), '0');
+}
+
+function testFormatting() {
+  assert.strictEqual(formatDecimalAmount(new BN(290000000), 9), '0.29');
+  assert.strictEqual(formatDecimalAmount('1500000', 6), '1.5');
+  assert.strictEqual(formatDecimalAmount(BigInt(1000000), 6), '1');
+  assert.strictEqual(formatDecimalAmount(new BN(7), 0), '7');
+  assert.strictEqual(formatDecimalAmount(new BN(150), 2, { fractionDigits: 4 }), '1.5000');
+  assert.strictEqual(formatDecimalAmount(new BN(12345), 4, { fractionDigits: 2, rounding: 'down' }), '1.23');
+}
+
+function testFormattingCarry() {
+  // Rounding carries through the fraction into the integer part
+  assert.strictEqual(formatDecimalAmount(new BN(9995), 4, { fractionDigits: 2 }), '1.00');
+  assert.strictEqual(formatDecimalAmount(new BN(999999999), 9, { fractionDigits: 0 }), '1');
+  assert.strictEqual(formatDecimalAmount(new BN(99950), 4, { fractionDigits: 2 }), '10.00');
+  assert.strictEqual(formatDecimalAmount(new BN(-9995), 4, { fractionDigits: 2 }), '-1.00');
+  assert.strictEqual(formatDecimalAmount(new BN(95), 2, { fractionDigits: 0 }), '1');
+}
+
+testExactConversion();
+testRoundingModes();
+testNegatives();
+testInvalidInput();
+testFormatting();
+testFormattingCarry();
+console.log('Decimal tests passed');
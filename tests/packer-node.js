@@ -0,0 +1,103 @@
+// Node.js test: Transaction packing limits, groups and reordering
+const assert = require('assert');
+const { AddressLookupTableAccount } = require('@solana/web3.js');
+const { Keypair, TransactionInstruction, packOperations, TRANSACTION_LIMITS } = require('../dist');
+
+const payer = Keypair.generate().publicKey;
+const programId = Keypair.generate().publicKey;
+
+// An instruction outside the program (estimated at COMPUTE_BUDGET.DEFAULT_INSTRUCTION_UNITS)
+function operation(dataBytes, group, keys = []) {
+  return {
+    instructions: [new TransactionInstruction({ programId, keys, data: Buffer.alloc(dataBytes) })],
+    group,
+  };
+}
+
+function testInOrderPacking() {
+  const result = packOperations(payer, [operation(300), operation(300), operation(300), operation(300), operation(300)]);
+  assert.deepStrictEqual(result.assignments, [0, 0, 0, 1, 1]);
+  for (const transaction of result.transactions) {
+    assert.ok(transaction.size <= TRANSACTION_LIMITS.PACKET_SIZE);
+  }
+}
+
+function testGroupStaysTogether() {
+  const result = packOperations(payer, [
+    operation(300),
+    operation(300),
+    operation(300, 'pair'),
+    operation(300, 'pair'),
+  ]);
+  // The group does not fit after the first two operations, so both members move to the next transaction
+  assert.deepStrictEqual(result.assignments, [0, 0, 1, 1]);
+  assert.deepStrictEqual(result.transactions[1].operations, [2, 3]);
+}
+
+function testGroupMustBeContiguous() {
+  assert.throws(
+    () => packOperations(payer, [operation(10, 'g'), operation(10), operation(10, 'g')]),
+    /group "g" must be contiguous/
+  );
+}
+
+function testOperationTooLarge() {
+  assert.throws(() => packOperations(payer, [operation(10), operation(1300)]), /Operation 1 does not fit/);
+  assert.throws(
+    () => packOperations(payer, [operation(700, 'big'), operation(700, 'big')]),
+    /Operation 0, 1 does not fit/
+  );
+}
+
+function testAllowReordering() {
+  const operations = [operation(600), operation(900), operation(300)];
+
+  const inOrder = packOperations(payer, operations);
+  assert.deepStrictEqual(inOrder.assignments, [0, 1, 2]);
+
+  const reordered = packOperations(payer, operations, { allowReordering: true });
+  assert.deepStrictEqual(reordered.assignments, [0, 1, 0]);
+  assert.deepStrictEqual(reordered.transactions[0].operations, [0, 2]);
+}
+
+function testComputeUnitCap() {
+  const result = packOperations(payer, [operation(10), operation(10), operation(10)], { maxComputeUnits: 60_000 });
+  assert.deepStrictEqual(result.assignments, [0, 0, 1]);
+  assert.strictEqual(result.transactions[0].computeUnits, 50_000);
+  assert.throws(() => packOperations(payer, [operation(10)], { maxComputeUnits: 10_000 }), /does not fit/);
+}
+
+function testAccountLockLimit() {
+  // Lookup tables keep the size small, so only the lock limit separates these operations
+  const addresses = Array.from({ length: 80 }, () => Keypair.generate().publicKey);
+  const lookupTable = new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt('18446744073709551615'),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      addresses,
+    },
+  });
+  const keys = (slice) => slice.map(pubkey => ({ pubkey, isSigner: false, isWritable: false }));
+
+  const result = packOperations(
+    payer,
+    [operation(10, undefined, keys(addresses.slice(0, 40))), operation(10, undefined, keys(addresses.slice(40)))],
+    { lookupTables: [lookupTable] }
+  );
+  assert.deepStrictEqual(result.assignments, [0, 1]);
+  for (const transaction of result.transactions) {
+    assert.ok(transaction.accountCount <= TRANSACTION_LIMITS.MAX_ACCOUNT_LOCKS);
+    assert.ok(transaction.size <= TRANSACTION_LIMITS.PACKET_SIZE);
+  }
+}
+
+testInOrderPacking();
+testGroupStaysTogether();
+testGroupMustBeContiguous();
+testOperationTooLarge();
+testAllowReordering();
+testComputeUnitCap();
+testAccountLockLimit();
+console.log('Packer tests passed');
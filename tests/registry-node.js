@@ -0,0 +1,69 @@
+// Node.js test: Instruction data encode/decode round trips and field range checks for every generation
+const assert = require('assert');
+const { BN, Keypair, INSTRUCTION_SCHEMAS, encodeInstructionData, decodeInstructionData } = require('../dist');
+
+const U64_MAX = new BN(1).shln(64).subn(1);
+
+const SAMPLE_VALUES = {
+  u8: 0xff,
+  u32: 0xffffffff,
+  u64: U64_MAX,
+  bool: true,
+  pubkey: Keypair.generate().publicKey,
+  string: 'round trip',
+};
+
+function assertFieldEqual(type, actual, expected, label) {
+  if (type === 'u64') {
+    assert.ok(actual.eq(expected), `${label}: ${actual.toString()} !== ${expected.toString()}`);
+  } else if (type === 'pubkey') {
+    assert.ok(actual.equals(expected), label);
+  } else {
+    assert.strictEqual(actual, expected, label);
+  }
+}
+
+function testRoundTrips() {
+  for (const [generation, table] of Object.entries(INSTRUCTION_SCHEMAS)) {
+    for (const [name, schema] of Object.entries(table)) {
+      const values = {};
+      for (const field of schema.fields) {
+        values[field.name] = SAMPLE_VALUES[field.type];
+      }
+
+      const data = encodeInstructionData(name, values, generation);
+      assert.strictEqual(data[0], schema.discriminator, `${generation} ${name} discriminator`);
+
+      const decoded = decodeInstructionData(data, generation);
+      assert.strictEqual(decoded.name, name, `${generation} ${name} decodes to ${decoded.name}`);
+      for (const field of schema.fields) {
+        assertFieldEqual(field.type, decoded.values[field.name], values[field.name], `${generation} ${name}.${field.name}`);
+      }
+    }
+  }
+}
+
+function testOutOfRange() {
+  const swap = (amountIn) => ({
+    inputTokenMint: SAMPLE_VALUES.pubkey,
+    amountIn,
+    expectedAmountOut: new BN(1),
+  });
+
+  for (const generation of Object.keys(INSTRUCTION_SCHEMAS)) {
+    assert.throws(() => encodeInstructionData('Swap', swap(new BN(-1)), generation), /Invalid u64 value for field amountIn/);
+    assert.throws(() => encodeInstructionData('Swap', swap(U64_MAX.addn(1)), generation), /Invalid u64 value for field amountIn/);
+    assert.doesNotThrow(() => encodeInstructionData('Swap', swap(new BN(0)), generation));
+
+    assert.throws(() => encodeInstructionData('PauseSystem', { reasonCode: 256 }, generation), /Invalid u8 value for field reasonCode/);
+    assert.throws(() => encodeInstructionData('PauseSystem', { reasonCode: -1 }, generation), /Invalid u8 value/);
+    assert.throws(() => encodeInstructionData('PauseSystem', { reasonCode: 1.5 }, generation), /Invalid u8 value/);
+  }
+
+  assert.throws(() => encodeInstructionData('ConsolidatePoolFees', { poolCount: 2 ** 32 }, '0.14'), /Invalid u32 value for field poolCount/);
+  assert.throws(() => encodeInstructionData('ConsolidatePoolFees', { poolCount: 256 }, '0.15'), /Invalid u8 value for field poolCount/);
+}
+
+testRoundTrips();
+testOutOfRange();
+console.log('Registry tests passed');
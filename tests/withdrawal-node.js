@@ -0,0 +1,88 @@
+// Node.js test: Treasury withdrawal limit tiers, restart penalty and rate limit window
+const assert = require('assert');
+const { BN, calculateHourlyWithdrawalLimit, calculateTreasuryWithdrawalStatus, validateTreasuryWithdrawal } = require('../dist');
+
+const SOL = new BN(1_000_000_000);
+const HOUR = 3600;
+const NOW = 1_700_000_000;
+
+function treasury(availableSol, lastWithdrawalTimestamp) {
+  const rentExemptMinimum = new BN(1_000_000);
+  const availableForWithdrawal = SOL.muln(availableSol);
+  return {
+    totalBalance: availableForWithdrawal.add(rentExemptMinimum),
+    rentExemptMinimum,
+    availableForWithdrawal,
+    lastWithdrawalTimestamp: new BN(lastWithdrawalTimestamp),
+  };
+}
+
+function testTiers() {
+  // 10 SOL/hour covers up to 480 SOL within 48 hours
+  assert.strictEqual(calculateHourlyWithdrawalLimit(new BN(0)).toString(), SOL.muln(10).toString());
+  assert.strictEqual(calculateHourlyWithdrawalLimit(SOL.muln(480)).toString(), SOL.muln(10).toString());
+  assert.strictEqual(calculateHourlyWithdrawalLimit(SOL.muln(480).addn(1)).toString(), SOL.muln(100).toString());
+  assert.strictEqual(calculateHourlyWithdrawalLimit(SOL.muln(4800)).toString(), SOL.muln(100).toString());
+  assert.strictEqual(calculateHourlyWithdrawalLimit(SOL.muln(4801)).toString(), SOL.muln(1000).toString());
+}
+
+function testTierUsesAvailableBalance() {
+  // The rent-exempt minimum does not push the balance into the next tier
+  const state = treasury(480, 0);
+  state.totalBalance = state.totalBalance.add(SOL.muln(100));
+  const status = calculateTreasuryWithdrawalStatus(state, NOW);
+  assert.strictEqual(status.hourlyLimit.toString(), SOL.muln(10).toString());
+}
+
+function testWindow() {
+  const state = treasury(50, NOW - HOUR + 120);
+  const blocked = calculateTreasuryWithdrawalStatus(state, NOW);
+  assert.strictEqual(blocked.blockedReason, 'rateLimited');
+  assert.strictEqual(blocked.secondsUntilAllowed, 120);
+  assert.strictEqual(blocked.availableNow.toString(), '0');
+  assert.strictEqual(blocked.penaltyEndsAt, null);
+
+  const open = calculateTreasuryWithdrawalStatus(state, NOW + 120);
+  assert.strictEqual(open.blockedReason, null);
+  assert.strictEqual(open.availableNow.toString(), SOL.muln(10).toString());
+}
+
+function testRestartPenalty() {
+  // The contract moves the last withdrawal time 71 hours ahead; the window runs from there
+  const penaltyEnd = NOW + 71 * HOUR;
+  const status = calculateTreasuryWithdrawalStatus(treasury(50, penaltyEnd), NOW);
+  assert.strictEqual(status.blockedReason, 'restartPenalty');
+  assert.strictEqual(status.penaltyEndsAt.toNumber(), penaltyEnd);
+  assert.strictEqual(status.nextAllowedTimestamp.toNumber(), penaltyEnd + HOUR);
+  assert.strictEqual(status.secondsUntilAllowed, 72 * HOUR);
+  assert.ok(status.message.includes(`until ${penaltyEnd}`));
+
+  // At exactly the penalty end the penalty is over, but its rate limit window still runs
+  const atBoundary = calculateTreasuryWithdrawalStatus(treasury(50, penaltyEnd), penaltyEnd);
+  assert.strictEqual(atBoundary.blockedReason, 'rateLimited');
+  assert.strictEqual(atBoundary.penaltyEndsAt, null);
+  assert.strictEqual(atBoundary.secondsUntilAllowed, HOUR);
+
+  const oneSecondBefore = calculateTreasuryWithdrawalStatus(treasury(50, penaltyEnd), penaltyEnd - 1);
+  assert.strictEqual(oneSecondBefore.blockedReason, 'restartPenalty');
+  assert.strictEqual(oneSecondBefore.secondsUntilAllowed, HOUR + 1);
+
+  const allowed = calculateTreasuryWithdrawalStatus(treasury(50, penaltyEnd), penaltyEnd + HOUR);
+  assert.strictEqual(allowed.blockedReason, null);
+}
+
+function testValidation() {
+  const state = treasury(5, 0);
+  assert.ok(validateTreasuryWithdrawal(state, new BN(0), NOW).isValid);
+  assert.ok(validateTreasuryWithdrawal(state, SOL.muln(5), NOW).isValid);
+  assert.ok(!validateTreasuryWithdrawal(state, SOL.muln(6), NOW).isValid);
+  assert.ok(!validateTreasuryWithdrawal(treasury(50, 0), SOL.muln(11), NOW).isValid);
+  assert.strictEqual(calculateTreasuryWithdrawalStatus(treasury(0, 0), NOW).blockedReason, 'rentExemptFloor');
+}
+
+testTiers();
+testTierUsesAvailableBalance();
+testWindow();
+testRestartPenalty();
+testValidation();
+console.log('Withdrawal tests passed');